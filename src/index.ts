@@ -14,70 +14,251 @@ import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  McpError,
+  ErrorCode,
+  isInitializeRequest,
 } from "@modelcontextprotocol/sdk/types.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import { z } from "zod";
 import axios, { AxiosResponse } from "axios";
 import sharp from "sharp";
-import { promises as fs } from "fs";
-import { join, dirname } from "path";
-import { fileURLToPath } from "url";
+import { Parser } from "htmlparser2";
+import JSZip from "jszip";
+import { promises as fs, readFileSync, writeFileSync, existsSync, mkdirSync, accessSync, realpathSync, constants as fsConstants } from "fs";
+import { join, dirname, relative, basename, extname, sep, resolve, isAbsolute } from "path";
+import { fileURLToPath, pathToFileURL } from "url";
 import { tmpdir } from "os";
+import { createHash, randomUUID, timingSafeEqual } from "crypto";
+import { createServer as createHttpServer, IncomingMessage, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import { AsyncLocalStorage } from "async_hooks";
+import YAML from "yaml";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
-// Get API key from environment
-const GOOGLE_API_KEY = process.env.GOOGLE_API_KEY;
-const BASE_URL = "https://maps.googleapis.com/maps/api/streetview";
-const METADATA_URL = "https://maps.googleapis.com/maps/api/streetview/metadata";
+// Value of a '--name value' or '--name=value' command line option
+function cliOption(name: string): string | undefined {
+  const args = process.argv.slice(2);
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === name) {
+      return args[i + 1];
+    }
+    if (args[i].startsWith(`${name}=`)) {
+      return args[i].slice(name.length + 1);
+    }
+  }
+  return undefined;
+}
 
-// Enhanced directory resolution with fallbacks
-function getOutputDirectory(): string {
-  // Try multiple fallback options in order of preference
-  const fallbackDirs = [
-    join(process.cwd(), "output"),  // Current working directory (preferred)
-    join(tmpdir(), "streetview-mcp-output"),  // System temp directory
-    join(process.env.HOME || process.env.USERPROFILE || tmpdir(), "streetview-output")  // User home or temp
-  ];
-  
-  for (const dir of fallbackDirs) {
-    try {
-      // Test if we can create the directory
-      return dir;
-    } catch {
-      continue;
+// Settings are layered: built-in defaults, then the config file, then environment variables
+// (the DXT user_config reaches the server through these), then command line flags
+const HOME_DIR = process.env.HOME || process.env.USERPROFILE || tmpdir();
+const numberSetting = z.coerce.number().min(0);
+const booleanSetting = z.union([z.boolean(), z.enum(["true", "false"]).transform(value => value === "true")]);
+const listSetting = z.union([
+  z.array(z.string().min(1)),
+  z.string().transform(value => value.split(',').map(item => item.trim()).filter(Boolean)),
+]);
+
+interface SettingDefinition {
+  env: string;
+  schema: z.ZodTypeAny;
+  secret?: boolean;
+}
+
+const SETTING_DEFINITIONS = {
+  google_api_key: { env: 'GOOGLE_API_KEY', schema: z.string().min(1).optional(), secret: true },
+  provider: { env: 'STREET_VIEW_PROVIDER', schema: z.enum(["google", "fixture"]).default("google") },
+  fixture_dir: { env: 'STREET_VIEW_FIXTURE_DIR', schema: z.string().min(1).optional() },
+  geocoder: { env: 'STREET_VIEW_GEOCODER', schema: z.enum(["google", "gazetteer"]).optional() },
+  gazetteer: { env: 'STREET_VIEW_GAZETTEER', schema: z.string().min(1).optional() },
+  // Endpoints can be overridden to point at a local stub for offline runs
+  api_url: { env: 'STREET_VIEW_API_URL', schema: z.string().url().default("https://maps.googleapis.com/maps/api/streetview") },
+  geocoding_api_url: { env: 'STREET_VIEW_GEOCODING_API_URL', schema: z.string().url().default("https://maps.googleapis.com/maps/api/geocode/json") },
+  request_timeout_ms: { env: 'STREET_VIEW_REQUEST_TIMEOUT_MS', schema: z.coerce.number().int().min(1000).default(30000) },
+  output_dir: { env: 'STREET_VIEW_OUTPUT_DIR', schema: z.string().min(1).optional() },
+  html_dir: { env: 'STREET_VIEW_HTML_DIR', schema: z.string().min(1).optional() },
+  default_size: { env: 'STREET_VIEW_DEFAULT_SIZE', schema: z.string().regex(/^\d+x\d+$/, "Use format WIDTHxHEIGHT").default("600x400") },
+  default_fov: { env: 'STREET_VIEW_DEFAULT_FOV', schema: z.coerce.number().int().min(10).max(120).default(90) },
+  jpeg_quality: { env: 'STREET_VIEW_JPEG_QUALITY', schema: z.coerce.number().int().min(1).max(100).default(95) },
+  allowed_tools: { env: 'STREET_VIEW_ALLOWED_TOOLS', schema: listSetting.optional() },
+  cache: { env: 'STREET_VIEW_CACHE', schema: z.enum(["on", "off"]).default("on") },
+  cache_dir: { env: 'STREET_VIEW_CACHE_DIR', schema: z.string().min(1).default(join(HOME_DIR, ".cache", "streetview-mcp")) },
+  cache_ttl: { env: 'STREET_VIEW_CACHE_TTL', schema: numberSetting.default(7 * 24 * 60 * 60) }, // Seconds, 0 = never expire
+  cache_max_mb: { env: 'STREET_VIEW_CACHE_MAX_MB', schema: numberSetting.default(500) },
+  offline: { env: 'STREET_VIEW_OFFLINE', schema: booleanSetting.default(false) },
+  max_retries: { env: 'STREET_VIEW_MAX_RETRIES', schema: numberSetting.default(2) },
+  retry_delay_ms: { env: 'STREET_VIEW_RETRY_DELAY_MS', schema: numberSetting.default(500) },
+  rate_limit: { env: 'STREET_VIEW_RATE_LIMIT', schema: numberSetting.default(10) },
+  daily_budget: { env: 'STREET_VIEW_DAILY_BUDGET', schema: numberSetting.default(0) },
+  monthly_budget: { env: 'STREET_VIEW_MONTHLY_BUDGET', schema: numberSetting.default(0) },
+  daily_request_limit: { env: 'STREET_VIEW_DAILY_REQUEST_LIMIT', schema: numberSetting.default(0) },
+  usage_file: { env: 'STREET_VIEW_USAGE_FILE', schema: z.string().min(1).optional() },
+  image_price: { env: 'STREET_VIEW_IMAGE_PRICE', schema: numberSetting.default(7) },
+  geocode_price: { env: 'STREET_VIEW_GEOCODE_PRICE', schema: numberSetting.default(5) },
+  transport: { env: 'STREET_VIEW_TRANSPORT', schema: z.enum(["stdio", "http"]).default("stdio") },
+  http_host: { env: 'STREET_VIEW_HTTP_HOST', schema: z.string().min(1).default("127.0.0.1") },
+  http_port: { env: 'STREET_VIEW_HTTP_PORT', schema: z.coerce.number().int().min(0).max(65535).default(3000) },
+  http_token: { env: 'STREET_VIEW_HTTP_TOKEN', schema: z.string().min(1).optional(), secret: true },
+  session_root: { env: 'STREET_VIEW_SESSION_ROOT', schema: z.string().min(1).default(join(tmpdir(), "streetview-mcp-sessions")) },
+  session_idle_timeout: { env: 'STREET_VIEW_SESSION_IDLE_TIMEOUT', schema: numberSetting.default(30 * 60) }, // Seconds, 0 = never expire
+} satisfies Record<string, SettingDefinition>;
+
+type SettingName = keyof typeof SETTING_DEFINITIONS;
+type Settings = { [K in SettingName]: z.output<typeof SETTING_DEFINITIONS[K]['schema']> };
+type SettingSource = 'default' | 'file' | 'env' | 'cli';
+
+interface LoadedSettings {
+  settings: Settings;
+  sources: Record<SettingName, SettingSource>;
+  file?: string;
+}
+
+const CONFIG_FILE_CANDIDATES = ['streetview.config.json', 'streetview.config.yaml', 'streetview.config.yml'];
+
+// Config file from --config or STREET_VIEW_CONFIG, otherwise the first candidate in the working directory
+function findConfigFile(): string | undefined {
+  const explicit = cliOption('--config') || process.env.STREET_VIEW_CONFIG;
+  if (explicit) {
+    if (!existsSync(explicit)) {
+      throw new Error(`Config file not found: ${explicit}`);
     }
+    return resolve(explicit);
   }
-  
-  // Final fallback to temp directory
-  return join(tmpdir(), "streetview-mcp-output");
+  return CONFIG_FILE_CANDIDATES.map(file => join(process.cwd(), file)).find(file => existsSync(file));
 }
 
-function getHtmlDirectory(): string {
-  // Try multiple fallback options in order of preference
-  const fallbackDirs = [
-    join(process.cwd(), "html"),  // Current working directory (preferred)
-    join(tmpdir(), "streetview-mcp-html"),  // System temp directory
-    join(process.env.HOME || process.env.USERPROFILE || tmpdir(), "streetview-html")  // User home or temp
-  ];
-  
-  for (const dir of fallbackDirs) {
+function readConfigFile(file: string): Record<string, unknown> {
+  let parsed: unknown;
+  try {
+    const text = readFileSync(file, 'utf-8');
+    parsed = /\.ya?ml$/i.test(file) ? YAML.parse(text) : JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Config file ${file} could not be parsed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (parsed === null || parsed === undefined) {
+    return {};
+  }
+  if (typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`Config file ${file} must contain an object of settings`);
+  }
+  for (const key of Object.keys(parsed)) {
+    if (!(key in SETTING_DEFINITIONS)) {
+      log('warn', `Ignoring unknown setting in config file: ${key}`, { file });
+    }
+  }
+  return parsed as Record<string, unknown>;
+}
+
+// Built-in defaults only, in effect until the settings are loaded at startup
+function defaultSettings(): LoadedSettings {
+  const settings: Record<string, unknown> = {};
+  const sources = {} as Record<SettingName, SettingSource>;
+  for (const [name, definition] of Object.entries(SETTING_DEFINITIONS) as [SettingName, SettingDefinition][]) {
+    settings[name] = definition.schema.parse(undefined);
+    sources[name] = 'default';
+  }
+  return { settings: settings as Settings, sources };
+}
+
+function loadSettings(): LoadedSettings {
+  const file = findConfigFile();
+  const fileValues = file ? readConfigFile(file) : {};
+  const cliValues: Partial<Record<SettingName, unknown>> = {
+    transport: process.argv.includes('--http') ? 'http' : undefined,
+    http_host: cliOption('--host'),
+    http_port: cliOption('--port'),
+  };
+
+  const { settings, sources } = defaultSettings();
+  for (const [name, definition] of Object.entries(SETTING_DEFINITIONS) as [SettingName, SettingDefinition][]) {
+    const layers: [SettingSource, unknown][] = [
+      ['file', fileValues[name]],
+      ['env', process.env[definition.env]],
+      ['cli', cliValues[name]],
+    ];
+    for (const [source, value] of layers) {
+      // Empty values count as unset, e.g. optional DXT fields the user left blank
+      if (value === undefined || value === null || (typeof value === 'string' && value.trim() === '')) {
+        continue;
+      }
+      const parsed = definition.schema.safeParse(value);
+      if (!parsed.success) {
+        log('warn', `Ignoring invalid value for ${name} from ${source === 'env' ? definition.env : source}`, {
+          value: definition.secret ? '[redacted]' : value,
+          error: parsed.error.issues[0]?.message,
+        });
+        continue;
+      }
+      (settings as Record<string, unknown>)[name] = parsed.data;
+      sources[name] = source;
+    }
+  }
+  return { settings, sources, file };
+}
+
+// Replaced by initializeSettings() in main, so importing the module reads no files
+let { settings: SETTINGS, sources: SETTING_SOURCES, file: CONFIG_FILE } = defaultSettings();
+
+// Tools can be restricted to a subset with the allowed_tools setting
+function isToolAllowed(name: string): boolean {
+  return !SETTINGS.allowed_tools || SETTINGS.allowed_tools.includes(name);
+}
+
+// First candidate directory that can be created and written to
+function firstWritableDirectory(candidates: string[], fallback: string): string {
+  for (const dir of candidates) {
     try {
-      // Test if we can create the directory
+      mkdirSync(dir, { recursive: true });
+      accessSync(dir, fsConstants.W_OK);
       return dir;
-    } catch {
-      continue;
+    } catch (error) {
+      log('warn', `Directory ${dir} is not writable, trying the next fallback`, { error: error instanceof Error ? error.message : error });
     }
   }
-  
-  // Final fallback to temp directory
-  return join(tmpdir(), "streetview-mcp-html");
+  return fallback;
 }
 
-// Output directories with fallback support
-const OUTPUT_DIR = getOutputDirectory();
-const HTML_DIR = getHtmlDirectory();
+// Enhanced directory resolution with fallbacks, in order of preference: the configured
+// directory, the current working directory, the system temp directory and the user home
+function getOutputDirectory(): string {
+  return firstWritableDirectory([
+    ...(SETTINGS.output_dir ? [resolve(SETTINGS.output_dir)] : []),
+    join(process.cwd(), "output"),
+    join(tmpdir(), "streetview-mcp-output"),
+    join(HOME_DIR, "streetview-output"),
+  ], join(tmpdir(), "streetview-mcp-output"));
+}
+
+function getHtmlDirectory(): string {
+  return firstWritableDirectory([
+    ...(SETTINGS.html_dir ? [resolve(SETTINGS.html_dir)] : []),
+    join(process.cwd(), "html"),
+    join(tmpdir(), "streetview-mcp-html"),
+    join(HOME_DIR, "streetview-html"),
+  ], join(tmpdir(), "streetview-mcp-html"));
+}
+
+// Output directories with fallback support, resolved at startup
+let OUTPUT_DIR: string;
+let HTML_DIR: string;
+
+// Output and HTML directories for the current request; HTTP sessions get their own
+function outputDirectory(): string {
+  return requestContext.getStore()?.outputDir ?? OUTPUT_DIR;
+}
+
+function htmlDirectory(): string {
+  return requestContext.getStore()?.htmlDir ?? HTML_DIR;
+}
 
 // Enhanced logging for DXT environment
 function log(level: 'info' | 'error' | 'warn', message: string, data?: any) {
@@ -93,16 +274,34 @@ function log(level: 'info' | 'error' | 'warn', message: string, data?: any) {
 
 // Define Zod schemas for tool inputs
 const GetStreetViewSchema = z.object({
-  filename: z.string().min(1, "Filename cannot be empty"),
+  filename: z.string().min(1, "Filename cannot be empty").optional(),
   location: z.string().optional(),
   lat_lng: z.string().optional(),
   pano_id: z.string().optional(),
-  size: z.string().optional().default("600x400"),
+  size: z.string().optional().default(() => SETTINGS.default_size),
   heading: z.number().int().min(0).max(360).optional().default(0),
   pitch: z.number().int().min(-90).max(90).optional().default(0),
-  fov: z.number().int().min(10).max(120).optional().default(90),
+  fov: z.number().int().min(10).max(120).optional().default(() => SETTINGS.default_fov),
   radius: z.number().int().min(1).optional().default(50),
   source: z.enum(["default", "outdoor"]).optional().default("default"),
+  collection: z.string().optional(),
+  on_conflict: z.enum(["error", "overwrite", "auto_suffix"]).optional(),
+  format: z.enum(["jpeg", "png", "webp", "avif"]).optional(),
+  quality: z.number().int().min(1).max(100).optional(),
+  scale: z.number().int().min(1).max(4).optional(),
+  crop: z.object({
+    left: z.number().int().min(0),
+    top: z.number().int().min(0),
+    width: z.number().int().min(1),
+    height: z.number().int().min(1),
+  }).optional(),
+  annotate: z.boolean().optional(),
+  include_address: z.boolean().optional(),
+  look_at: z.object({
+    lat_lng: z.string().min(1),
+    height: z.number().min(0).max(1000).optional(),
+    width: z.number().min(0.5).max(2000).optional(),
+  }).optional(),
 }).refine((data) => {
   const locationMethods = [data.location, data.lat_lng, data.pano_id].filter(Boolean).length;
   return locationMethods === 1;
@@ -116,6 +315,7 @@ const GetMetadataSchema = z.object({
   pano_id: z.string().optional(),
   radius: z.number().int().min(1).optional().default(50),
   source: z.enum(["default", "outdoor"]).optional().default("default"),
+  include_address: z.boolean().optional(),
 }).refine((data) => {
   const locationMethods = [data.location, data.lat_lng, data.pano_id].filter(Boolean).length;
   return locationMethods === 1;
@@ -124,12 +324,211 @@ const GetMetadataSchema = z.object({
 });
 
 const CreateHtmlPageSchema = z.object({
-  filename: z.string().min(1, "Filename cannot be empty"),
+  filename: z.string().min(1, "Filename cannot be empty").optional(),
   title: z.string().optional().default("Street View Tour"),
   html_elements: z.array(z.string()).min(1, "HTML elements cannot be empty"),
+  mode: z.enum(["strict", "permissive"]).optional().default("strict"),
+  on_conflict: z.enum(["error", "overwrite", "auto_suffix"]).optional(),
+  export: z.enum(["none", "inline", "zip"]).optional().default("none"),
+  export_width: z.number().int().min(100).max(4096).optional().default(1024),
+  export_quality: z.number().int().min(1).max(100).optional().default(80),
+});
+
+const ListSavedImagesSchema = z.object({
+  near: z.string().optional(),
+  within: z.number().min(1).optional().default(100),
+  date_from: z.string().regex(/^\d{4}(-\d{2})?$/, "Use format YYYY or YYYY-MM").optional(),
+  date_to: z.string().regex(/^\d{4}(-\d{2})?$/, "Use format YYYY or YYYY-MM").optional(),
+  pano_id: z.string().optional(),
+  heading_min: z.number().min(0).max(360).optional(),
+  heading_max: z.number().min(0).max(360).optional(),
+  text: z.string().optional(),
+  collection: z.string().optional(),
+  page: z.number().int().min(1).optional().default(1),
+  page_size: z.number().int().min(1).max(500).optional().default(50),
+});
+
+const GetPanoramaSchema = z.object({
+  filename: z.string().min(1, "Filename cannot be empty"),
+  location: z.string().optional(),
+  lat_lng: z.string().optional(),
+  pano_id: z.string().optional(),
+  tile_size: z.string().optional().default(() => SETTINGS.default_size),
+  headings: z.number().int().min(3).max(24).optional().default(8),
+  pitches: z.array(z.number().int().min(-90).max(90)).min(1).optional().default([0]),
+  projection: z.enum(["cylindrical", "equirectangular"]).optional().default("cylindrical"),
+  radius: z.number().int().min(1).optional().default(50),
+  source: z.enum(["default", "outdoor"]).optional().default("default"),
+}).refine((data) => {
+  const locationMethods = [data.location, data.lat_lng, data.pano_id].filter(Boolean).length;
+  return locationMethods === 1;
+}, {
+  message: "Exactly one of location, lat_lng, or pano_id must be provided",
+});
+
+const CreateRouteTourSchema = z.object({
+  name: z.string().min(1, "Name cannot be empty"),
+  start: z.string().optional(),
+  end: z.string().optional(),
+  polyline: z.string().optional(),
+  waypoints: z.array(z.string()).min(2, "At least two waypoints are required").optional(),
+  interval: z.number().min(1).optional().default(25),
+  max_frames: z.number().int().min(1).max(200).optional().default(50),
+  size: z.string().optional().default(() => SETTINGS.default_size),
+  pitch: z.number().int().min(-90).max(90).optional().default(0),
+  fov: z.number().int().min(10).max(120).optional().default(() => SETTINGS.default_fov),
+  radius: z.number().int().min(1).optional().default(25),
+  source: z.enum(["default", "outdoor"]).optional().default("default"),
+}).refine((data) => {
+  const pathMethods = [data.start || data.end, data.polyline, data.waypoints].filter(Boolean).length;
+  return pathMethods === 1 && (!(data.start || data.end) || (data.start && data.end));
+}, {
+  message: "Provide either both start and end, a polyline, or a waypoints list",
+});
+
+const ExportAnimationSchema = z.object({
+  filename: z.string().min(1, "Filename cannot be empty"),
+  frames: z.array(z.string().min(1)).min(1, "Frames cannot be empty").optional(),
+  pattern: z.string().min(1).optional(),
+  format: z.enum(["gif", "webp"]).optional().default("gif"),
+  delay: z.union([
+    z.number().int().min(0).max(65535),
+    z.array(z.number().int().min(0).max(65535)).min(1),
+  ]).optional().default(500),
+  width: z.number().int().min(16).max(2048).optional(),
+  height: z.number().int().min(16).max(2048).optional(),
+  captions: z.array(z.string()).optional(),
+  loop: z.number().int().min(0).max(65535).optional().default(0),
+  quality: z.number().int().min(1).max(100).optional().default(80),
+}).refine((data) => [data.frames, data.pattern].filter(Boolean).length === 1, {
+  message: "Exactly one of frames or pattern must be provided",
+});
+
+const CacheStatusSchema = z.object({});
+
+const ClearCacheSchema = z.object({
+  kind: z.enum(["all", "image", "metadata", "geocode"]).optional().default("all"),
+  expired_only: z.boolean().optional().default(false),
+});
+
+const BatchGetStreetViewSchema = z.object({
+  requests: z.array(z.unknown()).min(1, "Requests cannot be empty").max(100, "At most 100 requests per batch"),
+  concurrency: z.number().int().min(1).max(10).optional().default(4),
+  retries: z.number().int().min(0).max(5).optional().default(2),
+  retry_delay: z.number().int().min(0).max(10000).optional().default(500),
+});
+
+const ProbeCoverageSchema = z.object({
+  bbox: z.string().optional(),
+  center: z.string().optional(),
+  radius: z.number().min(1).optional(),
+  spacing: z.number().min(5).optional().default(50),
+  search_radius: z.number().int().min(1).optional(),
+  max_points: z.number().int().min(1).max(2500).optional().default(400),
+  concurrency: z.number().int().min(1).max(10).optional().default(4),
+  include_gaps: z.boolean().optional().default(false),
+  source: z.enum(["default", "outdoor"]).optional().default("default"),
+  filename: z.string().min(1).optional(),
+}).refine((data) => (data.bbox ? 1 : 0) + (data.center ? 1 : 0) === 1, {
+  message: "Exactly one of bbox or center must be provided",
+}).refine((data) => !data.center || data.radius !== undefined, {
+  message: "radius is required when center is provided",
+});
+
+const GetPanoHistorySchema = z.object({
+  location: z.string().optional(),
+  lat_lng: z.string().optional(),
+  search_radius: z.number().min(5).max(200).optional().default(30),
+  rings: z.number().int().min(1).max(5).optional().default(2),
+  points_per_ring: z.number().int().min(4).max(16).optional().default(8),
+  source: z.enum(["default", "outdoor"]).optional().default("default"),
+  fetch_images: z.boolean().optional().default(false),
+  filename_prefix: z.string().min(1).optional(),
+  heading: z.number().int().min(0).max(360).optional().default(0),
+  pitch: z.number().int().min(-90).max(90).optional().default(0),
+  fov: z.number().int().min(10).max(120).optional().default(() => SETTINGS.default_fov),
+  size: z.string().optional().default(() => SETTINGS.default_size),
+}).refine((data) => [data.location, data.lat_lng].filter(Boolean).length === 1, {
+  message: "Exactly one of location or lat_lng must be provided",
+}).refine((data) => !data.fetch_images || data.filename_prefix, {
+  message: "filename_prefix is required when fetch_images is true",
+});
+
+const CompareImagesSchema = z.object({
+  filename: z.string().min(1, "Filename cannot be empty"),
+  images: z.array(z.string().min(1)).min(2, "At least two images are required"),
+  mode: z.enum(["side_by_side", "grid", "swipe", "diff"]).optional().default("side_by_side"),
+  tile_width: z.number().int().min(64).max(2048).optional(),
+  columns: z.number().int().min(1).max(10).optional(),
+  gap: z.number().int().min(0).max(100).optional().default(8),
+  labels: z.boolean().optional().default(true),
+  threshold: z.number().int().min(0).max(255).optional().default(30),
+}).refine((data) => (data.mode !== "swipe" && data.mode !== "diff") || data.images.length === 2, {
+  message: "swipe and diff modes compare exactly two images",
+});
+
+const TourStopSchema = z.object({
+  image: z.string().min(1, "Stop image cannot be empty"),
+  title: z.string().min(1, "Stop title cannot be empty"),
+  description: z.string().optional(),
+  lat: z.number().min(-90).max(90).optional(),
+  lng: z.number().min(-180).max(180).optional(),
+  heading: z.number().min(0).max(360).optional(),
+  pano_date: z.string().optional(),
+});
+
+const CreateTourSchema = z.object({
+  filename: z.string().min(1, "Filename cannot be empty"),
+  title: z.string().optional().default("Street View Tour"),
+  intro: z.string().optional(),
+  stops: z.array(TourStopSchema).min(1, "Stops cannot be empty"),
+  image_mode: z.enum(["copy", "link"]).optional().default("copy"),
+  export: z.enum(["none", "inline", "zip"]).optional().default("none"),
+  export_width: z.number().int().min(100).max(4096).optional().default(1024),
+  export_quality: z.number().int().min(1).max(100).optional().default(80),
+});
+
+const UsageReportSchema = z.object({
+  days: z.number().int().min(1).max(90).optional().default(7),
+});
+
+const GetConfigSchema = z.object({});
+
+const GeocodeSchema = z.object({
+  address: z.string().min(1, "Address cannot be empty"),
+  limit: z.number().int().min(1).max(10).optional().default(5),
+});
+
+const ReverseGeocodeSchema = z.object({
+  lat_lng: z.string().min(1, "lat_lng cannot be empty"),
+  limit: z.number().int().min(1).max(10).optional().default(5),
+});
+
+const DeleteImageSchema = z.object({
+  filenames: z.array(z.string().min(1)).min(1, "Filenames cannot be empty"),
+  collection: z.string().optional(),
+});
+
+const RenameImageSchema = z.object({
+  filename: z.string().min(1, "Filename cannot be empty"),
+  new_filename: z.string().min(1, "New filename cannot be empty"),
+  collection: z.string().optional(),
+});
+
+const AnalyzeImageSchema = z.object({
+  filename: z.string().min(1, "Filename cannot be empty"),
+  collection: z.string().optional(),
+  palette_size: z.number().int().min(1).max(16).optional().default(5),
 });
 
-const ListSavedImagesSchema = z.object({});
+const OrganizeImagesSchema = z.object({
+  filenames: z.array(z.string().min(1)).min(1).optional(),
+  pattern: z.string().min(1).optional(),
+  from_collection: z.string().optional(),
+  to_collection: z.string(),
+}).refine((data) => [data.filenames, data.pattern].filter(Boolean).length === 1, {
+  message: "Exactly one of filenames or pattern must be provided",
+});
 
 // Types for API responses
 interface StreetViewMetadata {
@@ -143,25 +542,267 @@ interface StreetViewMetadata {
   };
 }
 
-// Configuration constants
-const REQUEST_TIMEOUT = 30000; // 30 second timeout for API requests
+// A single fetched view that makes up part of a stitched panorama
+interface PanoramaTile {
+  heading: number;
+  pitch: number;
+  fov: number;
+  size: string;
+  buffer: Buffer;
+}
 
-// Create the MCP server
-const server = new Server({
-  name: "street-view-node-mcp",
-  version: "1.0.0",
-}, {
-  capabilities: {
-    tools: {},
-  },
-});
+// Source of Street View imagery and metadata
+interface ImageryProvider {
+  readonly name: string;
+  fetchImage(params: Record<string, any>): Promise<Buffer>;
+  fetchMetadata(params: Record<string, any>): Promise<StreetViewMetadata>;
+}
+
+// A single geocoding match
+interface GeocodeResult {
+  formatted_address: string;
+  location: {
+    lat: number;
+    lng: number;
+  };
+  place_id?: string;
+  types?: string[];
+}
+
+// Source of forward and reverse geocoding
+interface GeocodingProvider {
+  readonly name: string;
+  geocode(address: string): Promise<GeocodeResult[]>;
+  reverseGeocode(point: LatLng): Promise<GeocodeResult[]>;
+}
+
+// What the HTML sanitizer removed or flagged
+interface SanitizeReport {
+  mode: 'strict' | 'permissive';
+  removed_elements: Record<string, number>;
+  unwrapped_tags: Record<string, number>;
+  removed_attributes: string[];
+  rejected_urls: string[];
+  missing_images: string[];
+}
+
+// Where an <img src> points, as checked against the output tree
+type ImageSourceStatus = 'local' | 'missing' | 'outside' | 'remote' | 'data' | 'invalid';
+
+// Provenance of a saved image, kept in the output directory's catalog
+interface ImageRecord {
+  filename: string;
+  saved_at: string;
+  tool: string;
+  parameters: Record<string, any>;
+  pano_id?: string;
+  date?: string;
+  copyright?: string;
+  address?: string;
+  location?: {
+    lat: number;
+    lng: number;
+  };
+  analysis?: ImageAnalysis;
+}
+
+// Pixel statistics from analyze_image; ratios are shares of all pixels
+interface ImageAnalysis {
+  analyzed_at: string;
+  width: number;
+  height: number;
+  palette: { hex: string; ratio: number }[];
+  brightness: number; // Mean luma, 0-255
+  contrast: number; // Standard deviation of luma
+  sharpness: number; // Variance of the Laplacian of the grayscale image
+  blurry: boolean;
+  sky_ratio: number;
+  vegetation_ratio: number;
+  placeholder: boolean;
+}
+
+type UsageKind = 'image' | 'metadata' | 'geocode';
+
+// Request counts and estimated spend for one day, in total or for one tool
+interface UsageCounters {
+  image: number;
+  metadata: number;
+  geocode: number;
+  cache_hits: number;
+  cost: number;
+}
+
+// Persisted usage, keyed by UTC day ('YYYY-MM-DD')
+interface UsageLog {
+  days: Record<string, { total: UsageCounters; tools: Record<string, UsageCounters> }>;
+}
+
+// A single entry in the on-disk request cache index
+interface CacheEntry {
+  key: string;
+  kind: 'image' | 'metadata' | 'geocode';
+  file: string;
+  size: number;
+  created: number;
+  last_accessed: number;
+  params: Record<string, any>;
+}
+
+// Stable, machine-readable categories for failed provider requests
+type StreetViewErrorCode =
+  | 'NO_IMAGERY'
+  | 'INVALID_REQUEST'
+  | 'REQUEST_DENIED'
+  | 'QUOTA_EXCEEDED'
+  | 'BUDGET_EXCEEDED'
+  | 'UPSTREAM_ERROR'
+  | 'NETWORK_ERROR'
+  | 'OFFLINE_CACHE_MISS'
+  | 'NOT_CONFIGURED';
+
+// Error raised for provider, quota and configuration failures, carrying a stable code
+class StreetViewError extends Error {
+  constructor(
+    readonly code: StreetViewErrorCode,
+    message: string,
+    readonly retryable = false,
+    readonly status?: number | string
+  ) {
+    super(message);
+    this.name = 'StreetViewError';
+  }
+}
+
+// Map an HTTP status from a Google API to an error code
+function errorFromHttpStatus(status: number, message: string): StreetViewError {
+  if (status === 404) {
+    return new StreetViewError('NO_IMAGERY', message, false, status);
+  }
+  if (status === 429) {
+    return new StreetViewError('QUOTA_EXCEEDED', message, true, status);
+  }
+  if (status === 401 || status === 403) {
+    return new StreetViewError('REQUEST_DENIED', message, false, status);
+  }
+  if (status >= 500) {
+    return new StreetViewError('UPSTREAM_ERROR', message, true, status);
+  }
+  return new StreetViewError('INVALID_REQUEST', message, false, status);
+}
+
+// Map a status field from a Google API response body to an error code
+function errorFromApiStatus(status: string, message: string): StreetViewError {
+  switch (status) {
+    case 'ZERO_RESULTS':
+    case 'NOT_FOUND':
+      return new StreetViewError('NO_IMAGERY', message, false, status);
+    case 'OVER_QUERY_LIMIT':
+    case 'OVER_DAILY_LIMIT':
+      return new StreetViewError('QUOTA_EXCEEDED', message, status === 'OVER_QUERY_LIMIT', status);
+    case 'REQUEST_DENIED':
+      return new StreetViewError('REQUEST_DENIED', message, false, status);
+    case 'INVALID_REQUEST':
+      return new StreetViewError('INVALID_REQUEST', message, false, status);
+    default:
+      // UNKNOWN_ERROR is documented as worth retrying
+      return new StreetViewError('UPSTREAM_ERROR', message, true, status);
+  }
+}
+
+// Error fields for tool responses, so agents can branch on the failure
+function errorDetails(error: unknown): { code?: StreetViewErrorCode; retryable?: boolean; upstream_status?: number | string } {
+  if (error instanceof StreetViewError) {
+    return { code: error.code, retryable: error.retryable, upstream_status: error.status };
+  }
+  return {};
+}
+
+// Configuration constants, derived from the settings by applySettings()
+let GOOGLE_API_KEY: string | undefined;
+let BASE_URL: string;
+let GEOCODING_URL: string;
+let REQUEST_TIMEOUT: number;
+let JPEG_QUALITY: number;
+
+// Request cache settings
+let CACHE_ENABLED: boolean;
+let CACHE_DIR: string;
+let CACHE_TTL_MS: number; // 0 = never expire
+let CACHE_MAX_BYTES: number;
+// Offline mode serves recorded responses only and never calls the API
+let OFFLINE_MODE: boolean;
+
+// Retries for transient provider failures (network errors, timeouts, HTTP 429 and 5xx)
+let MAX_RETRIES: number;
+let RETRY_BASE_DELAY_MS: number;
+
+// Request governor settings; prices are USD per 1000 billable requests, 0 disables a limit
+let RATE_LIMIT_PER_SECOND: number;
+let DAILY_BUDGET: number;
+let MONTHLY_BUDGET: number;
+let DAILY_REQUEST_LIMIT: number;
+let USAGE_FILE: string;
+let PRICE_PER_1000: Record<UsageKind, number>;
+
+// HTTP transport settings; the CLI flags --http, --host and --port take precedence
+let HTTP_MODE: boolean;
+let HTTP_HOST: string;
+let HTTP_PORT: number;
+let HTTP_TOKEN: string | undefined;
+let SESSION_ROOT: string;
+let SESSION_IDLE_TIMEOUT_MS: number;
+
+function applySettings(loaded: LoadedSettings): void {
+  ({ settings: SETTINGS, sources: SETTING_SOURCES, file: CONFIG_FILE } = loaded);
+  GOOGLE_API_KEY = SETTINGS.google_api_key;
+  BASE_URL = SETTINGS.api_url.replace(/\/+$/, "");
+  GEOCODING_URL = SETTINGS.geocoding_api_url;
+  REQUEST_TIMEOUT = SETTINGS.request_timeout_ms;
+  JPEG_QUALITY = SETTINGS.jpeg_quality;
+  CACHE_ENABLED = SETTINGS.cache !== 'off';
+  CACHE_DIR = SETTINGS.cache_dir;
+  CACHE_TTL_MS = SETTINGS.cache_ttl * 1000;
+  CACHE_MAX_BYTES = SETTINGS.cache_max_mb * 1024 * 1024;
+  OFFLINE_MODE = SETTINGS.offline;
+  MAX_RETRIES = SETTINGS.max_retries;
+  RETRY_BASE_DELAY_MS = SETTINGS.retry_delay_ms;
+  RATE_LIMIT_PER_SECOND = SETTINGS.rate_limit;
+  DAILY_BUDGET = SETTINGS.daily_budget;
+  MONTHLY_BUDGET = SETTINGS.monthly_budget;
+  DAILY_REQUEST_LIMIT = SETTINGS.daily_request_limit;
+  USAGE_FILE = SETTINGS.usage_file || join(CACHE_DIR, 'usage.json');
+  PRICE_PER_1000 = {
+    image: SETTINGS.image_price,
+    metadata: 0, // Street View metadata requests are free
+    geocode: SETTINGS.geocode_price,
+  };
+  HTTP_MODE = SETTINGS.transport === 'http';
+  HTTP_HOST = SETTINGS.http_host;
+  HTTP_PORT = SETTINGS.http_port;
+  HTTP_TOKEN = SETTINGS.http_token;
+  SESSION_ROOT = SETTINGS.session_root;
+  SESSION_IDLE_TIMEOUT_MS = SETTINGS.session_idle_timeout * 1000;
+}
+
+applySettings(defaultSettings());
+
+// Read the config file, environment and command line and prepare the output directories.
+// Called from main; throws when an explicit config file is missing or cannot be parsed
+function initializeSettings(): void {
+  applySettings(loadSettings());
+  OUTPUT_DIR = getOutputDirectory();
+  HTML_DIR = getHtmlDirectory();
+}
+
+// Largest JSON-RPC request body accepted over HTTP
+const HTTP_MAX_BODY_BYTES = 4 * 1024 * 1024;
 
 // Enhanced utility function to ensure directories exist with permission handling
 async function ensureDirectoryExists(dir: string): Promise<string> {
   try {
     await fs.access(dir);
     // Directory exists, test write permissions
-    const testFile = join(dir, '.write-test-' + Date.now());
+    const testFile = join(dir, `.write-test-${process.pid}-${Date.now()}-${Math.random().toString(36).slice(2)}`); // Unique so concurrent checks don't collide
     try {
       await fs.writeFile(testFile, '');
       await fs.unlink(testFile);
@@ -173,7 +814,7 @@ async function ensureDirectoryExists(dir: string): Promise<string> {
     try {
       await fs.mkdir(dir, { recursive: true });
       // Test write permissions after creation
-      const testFile = join(dir, '.write-test-' + Date.now());
+      const testFile = join(dir, `.write-test-${process.pid}-${Date.now()}-${Math.random().toString(36).slice(2)}`);
       try {
         await fs.writeFile(testFile, '');
         await fs.unlink(testFile);
@@ -208,302 +849,4805 @@ function parseLatLng(latLng: string): [number, number] {
   }
 }
 
-// Enhanced API request wrapper with error handling
-async function makeApiRequest(url: string, params: Record<string, any>): Promise<Buffer> {
-  try {
-    if (!GOOGLE_API_KEY) {
-      throw new Error("GOOGLE_API_KEY not found in environment variables. Please set your Google Maps API key.");
-    }
+// Geographic point in decimal degrees
+type LatLng = [number, number];
 
-    log('info', 'Making API request', { url, params });
+const EARTH_RADIUS_METERS = 6371008.8;
 
-    const response: AxiosResponse<Buffer> = await axios.get(url, {
-      params: {
-        ...params,
-        key: GOOGLE_API_KEY,
-      },
-      timeout: REQUEST_TIMEOUT,
-      responseType: 'arraybuffer',
-    });
+function toRadians(degrees: number): number {
+  return degrees * Math.PI / 180;
+}
 
-    log('info', 'API request successful', { status: response.status });
-    return Buffer.from(response.data);
-  } catch (error) {
-    if (axios.isAxiosError(error)) {
-      if (error.response) {
-        log('error', 'API request failed with response', {
-          status: error.response.status,
-          statusText: error.response.statusText,
-        });
-        throw new Error(`API request failed: ${error.response.status} ${error.response.statusText}`);
-      } else if (error.request) {
-        log('error', 'API request failed - no response received', { message: error.message });
-        throw new Error(`Network error: ${error.message}`);
+function toDegrees(radians: number): number {
+  return radians * 180 / Math.PI;
+}
+
+// Great-circle distance between two points in meters
+function distanceMeters([lat1, lng1]: LatLng, [lat2, lng2]: LatLng): number {
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+// Initial compass bearing from one point to another (0-360, clockwise from north)
+function bearingDegrees([lat1, lng1]: LatLng, [lat2, lng2]: LatLng): number {
+  const phi1 = toRadians(lat1);
+  const phi2 = toRadians(lat2);
+  const dLng = toRadians(lng2 - lng1);
+  const y = Math.sin(dLng) * Math.cos(phi2);
+  const x = Math.cos(phi1) * Math.sin(phi2) - Math.sin(phi1) * Math.cos(phi2) * Math.cos(dLng);
+  return (toDegrees(Math.atan2(y, x)) + 360) % 360;
+}
+
+// Street View cameras are mounted roughly this high above the ground
+const CAMERA_HEIGHT_METERS = 2.5;
+
+// Heading, pitch and fov that point a camera at a target and frame an object of the given size
+function computeLookAt(
+  camera: LatLng,
+  target: LatLng,
+  options: { height?: number; width?: number; fov: number; size: string }
+): { heading: number; pitch: number; fov: number; distance: number } {
+  const distance = Math.max(1, distanceMeters(camera, target));
+  const heading = Math.round(bearingDegrees(camera, target)) % 360;
+  // Aim at the vertical middle of the object, or straight ahead when its height is unknown
+  const aimHeight = options.height !== undefined ? options.height / 2 : CAMERA_HEIGHT_METERS;
+  const pitch = Math.round(Math.max(-90, Math.min(90, toDegrees(Math.atan2(aimHeight - CAMERA_HEIGHT_METERS, distance)))));
+
+  // Widen the view until the object fits with a margin on both axes
+  let fov = options.fov;
+  if (options.width !== undefined || options.height !== undefined) {
+    const [width, height] = parseSize(options.size);
+    const margin = 1.2;
+    const horizontal = options.width !== undefined ? 2 * Math.atan(options.width * margin / 2 / distance) : 0;
+    // The vertical extent is converted to the horizontal fov that shows it at this aspect ratio
+    const vertical = options.height !== undefined ? 2 * Math.atan(options.height * margin / 2 / distance * width / height) : 0;
+    fov = Math.round(Math.max(10, Math.min(120, toDegrees(Math.max(horizontal, vertical)))));
+  }
+  return { heading, pitch, fov, distance };
+}
+
+// Move a point by a distance north and east in meters (flat-earth approximation for short offsets)
+function offsetPoint([lat, lng]: LatLng, northMeters: number, eastMeters: number): LatLng {
+  const dLat = toDegrees(northMeters / EARTH_RADIUS_METERS);
+  const dLng = toDegrees(eastMeters / (EARTH_RADIUS_METERS * Math.cos(toRadians(lat))));
+  return [lat + dLat, lng + dLng];
+}
+
+// Decode a Google encoded polyline string into points
+function decodePolyline(encoded: string): LatLng[] {
+  const points: LatLng[] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  const nextValue = (): number => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      if (index >= encoded.length) {
+        throw new Error("Invalid encoded polyline");
       }
-    }
-    log('error', 'Unexpected error during API request', { error: error instanceof Error ? error.message : error });
-    throw new Error(`Unexpected error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    lat += nextValue();
+    lng += nextValue();
+    points.push([lat / 1e5, lng / 1e5]);
   }
+  return points;
 }
 
-// Enhanced metadata API request
-async function makeMetadataRequest(url: string, params: Record<string, any>): Promise<StreetViewMetadata> {
-  try {
-    if (!GOOGLE_API_KEY) {
-      throw new Error("GOOGLE_API_KEY not found in environment variables. Please set your Google Maps API key.");
+// Sample points along a path at a fixed spacing, always keeping both ends
+function samplePath(path: LatLng[], interval: number): LatLng[] {
+  if (path.length === 0) {
+    return [];
+  }
+  const samples: LatLng[] = [path[0]];
+  let carried = 0; // Distance travelled since the last sample
+
+  for (let i = 1; i < path.length; i++) {
+    const from = path[i - 1];
+    const to = path[i];
+    const segment = distanceMeters(from, to);
+    let offset = interval - carried;
+    while (offset <= segment) {
+      const t = offset / segment;
+      samples.push([from[0] + (to[0] - from[0]) * t, from[1] + (to[1] - from[1]) * t]);
+      offset += interval;
     }
+    carried = segment - (offset - interval);
+  }
+
+  const last = path[path.length - 1];
+  const previous = samples[samples.length - 1];
+  if (previous[0] !== last[0] || previous[1] !== last[1]) {
+    samples.push(last);
+  }
+  return samples;
+}
 
-    log('info', 'Making metadata API request', { url, params });
+// Location target accepted by the Street View tools (exactly one field is set)
+interface LocationTarget {
+  location?: string;
+  lat_lng?: string;
+  pano_id?: string;
+}
 
-    const response: AxiosResponse<StreetViewMetadata> = await axios.get(url, {
-      params: {
-        ...params,
-        key: GOOGLE_API_KEY,
-      },
-      timeout: REQUEST_TIMEOUT,
-    });
+// Utility function to set the location or pano parameter on a request
+function applyLocationParams(params: Record<string, any>, target: LocationTarget): Record<string, any> {
+  if (target.location) {
+    params.location = target.location;
+  } else if (target.lat_lng) {
+    const [lat, lng] = parseLatLng(target.lat_lng);
+    params.location = `${lat},${lng}`;
+  } else if (target.pano_id) {
+    params.pano = target.pano_id;
+    delete params.radius; // Not applicable for pano_id
+  }
+  return params;
+}
+
+// Build the image request parameters shared by get_street_view and get_panorama
+function buildStreetViewParams(
+  target: LocationTarget,
+  view: { size: string; heading: number; pitch: number; fov: number; radius: number; source: string }
+): Record<string, any> {
+  return applyLocationParams({ ...view, return_error_code: 'true' }, target);
+}
+
+// Utility function to parse a 'widthxheight' size string
+function parseSize(size: string): [number, number] {
+  const match = /^(\d+)x(\d+)$/.exec(size.trim());
+  if (!match) {
+    throw new Error("Invalid size format. Use format: '600x400'");
+  }
+  return [parseInt(match[1], 10), parseInt(match[2], 10)];
+}
 
-    log('info', 'Metadata API request successful', { status: response.status });
-    return response.data;
+// Utility function to fail when a file already exists
+async function assertFileDoesNotExist(filePath: string, displayName: string): Promise<void> {
+  try {
+    await fs.access(filePath);
+    throw new Error(`File ${displayName} already exists in output directory`);
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      if (error.response) {
-        log('error', 'Metadata API request failed with response', {
-          status: error.response.status,
-          statusText: error.response.statusText,
-        });
-        throw new Error(`Metadata API request failed: ${error.response.status} ${error.response.statusText}`);
-      } else if (error.request) {
-        log('error', 'Metadata API request failed - no response received', { message: error.message });
-        throw new Error(`Network error: ${error.message}`);
-      }
+    // File doesn't exist, which is what we want
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error;
     }
-    log('error', 'Unexpected error during metadata API request', { error: error instanceof Error ? error.message : error });
-    throw new Error(`Unexpected error: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
-// Tool handlers
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return {
-    tools: [
-      {
-        name: "get_street_view",
-        description: "Fetch a Street View image based on location, coordinates, or panorama ID and save to file.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            filename: {
-              type: "string",
-              description: "Required filename to save the image (must not already exist in output directory)",
-            },
-            location: {
-              type: "string",
-              description: "The address to get Street View image for (e.g., 'Empire State Building, NY')",
-            },
-            lat_lng: {
-              type: "string",
-              description: "Comma-separated latitude and longitude (e.g., '40.748817,-73.985428')",
-            },
-            pano_id: {
-              type: "string",
-              description: "Specific panorama ID to fetch",
-            },
-            size: {
-              type: "string",
-              description: "Image dimensions as 'widthxheight' (e.g., '600x400')",
-              default: "600x400"
-            },
-            heading: {
-              type: "number",
-              description: "Camera heading in degrees (0-360)",
-              default: 0
-            },
-            pitch: {
-              type: "number",
-              description: "Camera pitch in degrees (-90 to 90)",
-              default: 0
-            },
-            fov: {
-              type: "number",
-              description: "Field of view in degrees (zoom level, 10-120)",
-              default: 90
-            },
-            radius: {
-              type: "number",
-              description: "Search radius in meters when using location or coordinates",
-              default: 50
-            },
-            source: {
-              type: "string",
-              enum: ["default", "outdoor"],
-              description: "Limit Street View searches to selected sources",
-              default: "default"
-            },
-          },
-          required: ["filename"],
-        },
-      },
-      {
-        name: "get_metadata",
-        description: "Fetch metadata about a Street View panorama.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            location: {
-              type: "string",
-              description: "The address to check for Street View imagery",
-            },
-            lat_lng: {
-              type: "string",
-              description: "Comma-separated latitude and longitude (e.g., '40.748817,-73.985428')",
-            },
-            pano_id: {
-              type: "string",
-              description: "Specific panorama ID to fetch metadata for",
-            },
-            radius: {
-              type: "number",
-              description: "Search radius in meters when using location or coordinates",
-              default: 50
-            },
-            source: {
-              type: "string",
-              enum: ["default", "outdoor"],
-              description: "Limit Street View searches to selected sources",
-              default: "default"
-            },
+// Stitch fetched tiles into a single panorama image
+// Cylindrical output stacks pitch rows edge to edge; equirectangular output places each
+// row on a 2:1 canvas according to its pitch and vertical field of view.
+async function stitchPanorama(
+  tiles: PanoramaTile[],
+  headingCount: number,
+  pitches: number[],
+  tileWidth: number,
+  tileHeight: number,
+  projection: "cylindrical" | "equirectangular"
+): Promise<Buffer> {
+  const width = headingCount * tileWidth;
+  const composites: sharp.OverlayOptions[] = [];
+  let height: number;
+
+  if (projection === "cylindrical") {
+    height = pitches.length * tileHeight;
+    for (const tile of tiles) {
+      const column = Math.round(tile.heading / (360 / headingCount)) % headingCount;
+      const row = pitches.indexOf(tile.pitch);
+      const input = await sharp(tile.buffer).resize(tileWidth, tileHeight, { fit: 'fill' }).toBuffer();
+      composites.push({ input, left: column * tileWidth, top: row * tileHeight });
+    }
+  } else {
+    height = Math.round(width / 2);
+    // Vertical fov follows from the horizontal fov and the tile aspect ratio
+    const hfov = (360 / headingCount) * Math.PI / 180;
+    const vfov = 2 * Math.atan(Math.tan(hfov / 2) * tileHeight / tileWidth) * 180 / Math.PI;
+    const rowHeight = Math.min(height, Math.max(1, Math.round(vfov / 180 * height)));
+    for (const tile of tiles) {
+      const column = Math.round(tile.heading / (360 / headingCount)) % headingCount;
+      const center = (90 - tile.pitch) / 180 * height;
+      const top = Math.min(height - rowHeight, Math.max(0, Math.round(center - rowHeight / 2)));
+      const input = await sharp(tile.buffer).resize(tileWidth, rowHeight, { fit: 'fill' }).toBuffer();
+      composites.push({ input, left: column * tileWidth, top });
+    }
+  }
+
+  return sharp({
+    create: { width, height, channels: 3, background: { r: 0, g: 0, b: 0 } },
+  })
+    .composite(composites)
+    .jpeg({ quality: JPEG_QUALITY })
+    .toBuffer();
+}
+
+// Escape text for literal use inside a regular expression
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Convert a simple filename glob ('*' and '?') into an anchored regular expression
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`^${escaped.replace(/\*/g, '.*').replace(/\?/g, '.')}$`, 'i');
+}
+
+// Escape text for use inside SVG or HTML markup
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Render a caption bar as an SVG overlay sized to the frame
+function renderCaptionOverlay(caption: string, width: number, height: number): Buffer {
+  const fontSize = Math.max(12, Math.round(height / 18));
+  const barHeight = Math.round(fontSize * 1.8);
+  return Buffer.from(`<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+  <rect x="0" y="${height - barHeight}" width="${width}" height="${barHeight}" fill="black" fill-opacity="0.55"/>
+  <text x="${Math.round(fontSize * 0.6)}" y="${height - Math.round(barHeight / 2)}" font-family="Arial, sans-serif" font-size="${fontSize}" fill="white" dominant-baseline="middle">${escapeXml(caption)}</text>
+</svg>`);
+}
+
+// Eight-point compass name for a heading in degrees
+function compassPoint(heading: number): string {
+  const points = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+  return points[Math.round((((heading % 360) + 360) % 360) / 45) % 8];
+}
+
+// Render provenance lines in a bottom bar and a heading compass in the top-right corner
+function renderAnnotationOverlay(lines: string[], heading: number, width: number, height: number): Buffer {
+  const fontSize = Math.max(11, Math.round(Math.min(width, height) / 30));
+  const lineHeight = Math.round(fontSize * 1.35);
+  const barHeight = lineHeight * lines.length + Math.round(fontSize * 0.8);
+  const radius = Math.max(16, Math.round(Math.min(width, height) / 14));
+  const cx = width - radius - Math.round(radius / 3);
+  const cy = radius + Math.round(radius / 3);
+  const text = lines.map((line, i) =>
+    `<text x="${Math.round(fontSize * 0.6)}" y="${height - barHeight + Math.round(fontSize * 0.4) + lineHeight * (i + 1) - Math.round(lineHeight * 0.25)}" font-family="Arial, sans-serif" font-size="${fontSize}" fill="white">${escapeXml(line)}</text>`
+  ).join('\n  ');
+  return Buffer.from(`<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+  <rect x="0" y="${height - barHeight}" width="${width}" height="${barHeight}" fill="black" fill-opacity="0.55"/>
+  ${text}
+  <circle cx="${cx}" cy="${cy}" r="${radius}" fill="black" fill-opacity="0.55" stroke="white" stroke-width="1.5"/>
+  <text x="${cx}" y="${cy - radius + Math.round(radius * 0.45)}" font-family="Arial, sans-serif" font-size="${Math.round(radius * 0.45)}" fill="white" text-anchor="middle" dominant-baseline="middle">N</text>
+  <g transform="rotate(${heading} ${cx} ${cy})">
+    <polygon points="${cx},${cy - Math.round(radius * 0.7)} ${cx - Math.round(radius * 0.22)},${cy + Math.round(radius * 0.35)} ${cx},${cy + Math.round(radius * 0.15)} ${cx + Math.round(radius * 0.22)},${cy + Math.round(radius * 0.35)}" fill="#e74c3c"/>
+  </g>
+</svg>`);
+}
+
+type ImageFormat = 'jpeg' | 'png' | 'webp' | 'avif';
+
+const IMAGE_FORMAT_EXTENSIONS: Record<ImageFormat, string[]> = {
+  jpeg: ['jpg', 'jpeg'],
+  png: ['png'],
+  webp: ['webp'],
+  avif: ['avif'],
+};
+
+// Output format implied by a filename extension, if it is one we can write
+function formatFromFilename(filename: string): ImageFormat | undefined {
+  const extension = /\.([^.]+)$/.exec(filename)?.[1].toLowerCase();
+  return (Object.keys(IMAGE_FORMAT_EXTENSIONS) as ImageFormat[])
+    .find(format => extension && IMAGE_FORMAT_EXTENSIONS[format].includes(extension));
+}
+
+// Encode an image in the requested format; PNG is lossless and ignores quality
+function encodeImage(image: sharp.Sharp, format: ImageFormat, quality: number): sharp.Sharp {
+  switch (format) {
+    case 'png':
+      return image.png();
+    case 'webp':
+      return image.webp({ quality });
+    case 'avif':
+      return image.avif({ quality });
+    default:
+      return image.jpeg({ quality });
+  }
+}
+
+// Images are analyzed at this size at most; sharpness scores are relative to it
+const ANALYSIS_MAX_SIDE = 512;
+// Laplacian variance below which an image is considered blurry
+const BLUR_THRESHOLD = 100;
+
+// Hue in degrees, saturation and value in 0-1
+function rgbToHsv(r: number, g: number, b: number): [number, number, number] {
+  const max = Math.max(r, g, b);
+  const delta = max - Math.min(r, g, b);
+  let hue = 0;
+  if (delta > 0) {
+    if (max === r) {
+      hue = 60 * (((g - b) / delta + 6) % 6);
+    } else if (max === g) {
+      hue = 60 * ((b - r) / delta + 2);
+    } else {
+      hue = 60 * ((r - g) / delta + 4);
+    }
+  }
+  return [hue, max === 0 ? 0 : delta / max, max / 255];
+}
+
+// Palette, exposure, sharpness and rough sky/vegetation segmentation of an image file
+async function analyzeImagePixels(filePath: string, paletteSize: number): Promise<Omit<ImageAnalysis, 'analyzed_at'>> {
+  const metadata = await sharp(filePath).metadata();
+  const { data, info } = await sharp(filePath)
+    .resize(ANALYSIS_MAX_SIDE, ANALYSIS_MAX_SIDE, { fit: 'inside', withoutEnlargement: true })
+    .removeAlpha()
+    .toColourspace('srgb')
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const { width, height, channels } = info;
+  const pixels = width * height;
+  const luma = new Float32Array(pixels);
+  // Palette buckets quantize each channel to 3 bits and keep channel sums for the average color
+  const buckets = new Map<number, { count: number; r: number; g: number; b: number }>();
+  let lumaSum = 0;
+  let lumaSquares = 0;
+  let sky = 0;
+  let vegetation = 0;
+
+  for (let i = 0; i < pixels; i++) {
+    const r = data[i * channels];
+    const g = data[i * channels + 1];
+    const b = data[i * channels + 2];
+    const y = 0.299 * r + 0.587 * g + 0.114 * b;
+    luma[i] = y;
+    lumaSum += y;
+    lumaSquares += y * y;
+
+    const key = ((r >> 5) << 6) | ((g >> 5) << 3) | (b >> 5);
+    const bucket = buckets.get(key) ?? { count: 0, r: 0, g: 0, b: 0 };
+    bucket.count++;
+    bucket.r += r;
+    bucket.g += g;
+    bucket.b += b;
+    buckets.set(key, bucket);
+
+    // Blue sky anywhere, or bright overcast sky in the upper half; vegetation is any clearly green pixel
+    const [hue, saturation, value] = rgbToHsv(r, g, b);
+    const upperHalf = Math.floor(i / width) < height / 2;
+    if ((hue >= 190 && hue <= 250 && saturation >= 0.15 && value >= 0.45) || (upperHalf && saturation < 0.12 && value >= 0.75)) {
+      sky++;
+    } else if (hue >= 70 && hue <= 170 && saturation >= 0.2 && value >= 0.12) {
+      vegetation++;
+    }
+  }
+
+  // Variance of the 4-neighbour Laplacian over interior pixels
+  let laplacianSum = 0;
+  let laplacianSquares = 0;
+  let interior = 0;
+  for (let row = 1; row < height - 1; row++) {
+    for (let column = 1; column < width - 1; column++) {
+      const i = row * width + column;
+      const laplacian = 4 * luma[i] - luma[i - 1] - luma[i + 1] - luma[i - width] - luma[i + width];
+      laplacianSum += laplacian;
+      laplacianSquares += laplacian * laplacian;
+      interior++;
+    }
+  }
+  const sharpness = interior > 0 ? laplacianSquares / interior - (laplacianSum / interior) ** 2 : 0;
+
+  const brightness = lumaSum / pixels;
+  const contrast = Math.sqrt(Math.max(0, lumaSquares / pixels - brightness ** 2));
+  const hex = (value: number) => Math.round(value).toString(16).padStart(2, '0');
+  const palette = [...buckets.values()]
+    .sort((a, b) => b.count - a.count)
+    .slice(0, paletteSize)
+    .map(bucket => ({
+      hex: `#${hex(bucket.r / bucket.count)}${hex(bucket.g / bucket.count)}${hex(bucket.b / bucket.count)}`,
+      ratio: Math.round(bucket.count / pixels * 1000) / 1000,
+      saturation: rgbToHsv(bucket.r / bucket.count, bucket.g / bucket.count, bucket.b / bucket.count)[1],
+    }));
+
+  // Google's "no imagery" placeholder is a flat light gray with a short line of text
+  const dominant = palette[0];
+  const placeholder = !!dominant && dominant.ratio >= 0.9 && dominant.saturation < 0.08 && contrast < 25 && brightness >= 180;
+
+  return {
+    width: metadata.width ?? width,
+    height: metadata.height ?? height,
+    palette: palette.map(({ hex, ratio }) => ({ hex, ratio })),
+    brightness: Math.round(brightness * 10) / 10,
+    contrast: Math.round(contrast * 10) / 10,
+    sharpness: Math.round(sharpness * 10) / 10,
+    blurry: sharpness < BLUR_THRESHOLD,
+    sky_ratio: Math.round(sky / pixels * 1000) / 1000,
+    vegetation_ratio: Math.round(vegetation / pixels * 1000) / 1000,
+    placeholder,
+  };
+}
+
+// Per-pixel difference of two equally sized RGB images as a heatmap over the dimmed first image
+function renderDiffHeatmap(
+  first: Buffer,
+  second: Buffer,
+  width: number,
+  height: number,
+  threshold: number
+): { heatmap: Buffer; changedPixels: number } {
+  const heatmap = Buffer.alloc(width * height * 3);
+  let changedPixels = 0;
+  for (let i = 0; i < width * height; i++) {
+    const offset = i * 3;
+    const diff = Math.max(
+      Math.abs(first[offset] - second[offset]),
+      Math.abs(first[offset + 1] - second[offset + 1]),
+      Math.abs(first[offset + 2] - second[offset + 2])
+    );
+    const gray = Math.round((0.299 * first[offset] + 0.587 * first[offset + 1] + 0.114 * first[offset + 2]) * 0.5);
+    if (diff > threshold) {
+      changedPixels++;
+      const intensity = Math.min(1, diff / 128);
+      heatmap[offset] = Math.round(gray + (255 - gray) * intensity);
+      heatmap[offset + 1] = Math.round(gray * (1 - intensity));
+      heatmap[offset + 2] = Math.round(gray * (1 - intensity));
+    } else {
+      heatmap[offset] = gray;
+      heatmap[offset + 1] = gray;
+      heatmap[offset + 2] = gray;
+    }
+  }
+  return { heatmap, changedPixels };
+}
+
+// In-memory view of the cache index, loaded lazily from disk
+let cacheIndex: Map<string, CacheEntry> | null = null;
+let cacheIndexWrite: Promise<void> = Promise.resolve();
+const cacheStats = { hits: 0, misses: 0, evictions: 0 };
+
+async function loadCacheIndex(): Promise<Map<string, CacheEntry>> {
+  if (cacheIndex) {
+    return cacheIndex;
+  }
+  cacheIndex = new Map();
+  try {
+    const raw = await fs.readFile(join(CACHE_DIR, 'index.json'), 'utf-8');
+    for (const entry of JSON.parse(raw) as CacheEntry[]) {
+      cacheIndex.set(entry.key, entry);
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      log('warn', 'Cache index unreadable, starting with an empty cache', { error: error instanceof Error ? error.message : error });
+    }
+  }
+  return cacheIndex;
+}
+
+// Persist the index; writes are chained so they never interleave
+function saveCacheIndex(): Promise<void> {
+  if (cacheIndexFlush) {
+    clearTimeout(cacheIndexFlush);
+    cacheIndexFlush = null;
+  }
+  cacheIndexWrite = cacheIndexWrite.then(async () => {
+    if (!cacheIndex) {
+      return;
+    }
+    await fs.mkdir(CACHE_DIR, { recursive: true });
+    const tempPath = join(CACHE_DIR, `index.json.${process.pid}.tmp`);
+    await fs.writeFile(tempPath, JSON.stringify([...cacheIndex.values()]), 'utf-8');
+    await fs.rename(tempPath, join(CACHE_DIR, 'index.json'));
+  }).catch((error) => {
+    log('warn', 'Failed to write cache index', { error: error instanceof Error ? error.message : error });
+  });
+  return cacheIndexWrite;
+}
+
+// Access times only affect eviction order, so cache hits save the index lazily
+// instead of rewriting it on every hit; a crash loses at most a few seconds of them
+const CACHE_INDEX_FLUSH_MS = 5000;
+let cacheIndexFlush: NodeJS.Timeout | null = null;
+
+function scheduleCacheIndexSave(): void {
+  if (cacheIndexFlush) {
+    return;
+  }
+  cacheIndexFlush = setTimeout(() => {
+    cacheIndexFlush = null;
+    void saveCacheIndex();
+  }, CACHE_INDEX_FLUSH_MS);
+  cacheIndexFlush.unref();
+}
+
+// Free-text parameters are case-insensitive; IDs such as pano_id are not
+const CASE_INSENSITIVE_CACHE_PARAMS = new Set(['location', 'address']);
+
+// Normalize request parameters so equivalent requests share a cache key
+function normalizeCacheParams(params: Record<string, any>): Record<string, any> {
+  const normalized: Record<string, any> = {};
+  for (const key of Object.keys(params).sort()) {
+    const value = params[key];
+    if (value === undefined || key === 'key' || key === 'return_error_code') {
+      continue;
+    }
+    if (typeof value !== 'string') {
+      normalized[key] = value;
+      continue;
+    }
+    const collapsed = value.trim().replace(/\s+/g, ' ');
+    normalized[key] = CASE_INSENSITIVE_CACHE_PARAMS.has(key) ? collapsed.toLowerCase() : collapsed;
+  }
+  return normalized;
+}
+
+function cacheKey(kind: CacheEntry['kind'], providerName: string, params: Record<string, any>): string {
+  return createHash('sha256')
+    .update(JSON.stringify({ kind, provider: providerName, params: normalizeCacheParams(params) }))
+    .digest('hex');
+}
+
+function isCacheEntryExpired(entry: CacheEntry, now: number = Date.now()): boolean {
+  return CACHE_TTL_MS > 0 && now - entry.created > CACHE_TTL_MS;
+}
+
+// Look up a cached response; expired entries still serve in offline mode
+async function readCache(kind: CacheEntry['kind'], providerName: string, params: Record<string, any>): Promise<Buffer | null> {
+  if (!CACHE_ENABLED) {
+    return null;
+  }
+  const index = await loadCacheIndex();
+  const key = cacheKey(kind, providerName, params);
+  const entry = index.get(key);
+  if (!entry || (isCacheEntryExpired(entry) && !OFFLINE_MODE)) {
+    cacheStats.misses++;
+    return null;
+  }
+  try {
+    const data = await fs.readFile(join(CACHE_DIR, entry.file));
+    entry.last_accessed = Date.now();
+    cacheStats.hits++;
+    scheduleCacheIndexSave();
+    log('info', 'Cache hit', { kind, key });
+    return data;
+  } catch {
+    // File went missing underneath the index
+    index.delete(key);
+    cacheStats.misses++;
+    await saveCacheIndex();
+    return null;
+  }
+}
+
+async function writeCache(kind: CacheEntry['kind'], providerName: string, params: Record<string, any>, data: Buffer): Promise<void> {
+  if (!CACHE_ENABLED) {
+    return;
+  }
+  try {
+    const index = await loadCacheIndex();
+    const key = cacheKey(kind, providerName, params);
+    const file = `${key}.${kind === 'image' ? 'bin' : 'json'}`;
+    await fs.mkdir(CACHE_DIR, { recursive: true });
+    await fs.writeFile(join(CACHE_DIR, file), data);
+    const now = Date.now();
+    index.set(key, {
+      key,
+      kind,
+      file,
+      size: data.length,
+      created: now,
+      last_accessed: now,
+      params: normalizeCacheParams(params),
+    });
+    await evictCacheEntries();
+    await saveCacheIndex();
+  } catch (error) {
+    // A failed cache write should never fail the request itself
+    log('warn', 'Failed to write cache entry', { error: error instanceof Error ? error.message : error });
+  }
+}
+
+// Drop least recently used entries until the cache fits within its size cap
+async function evictCacheEntries(): Promise<void> {
+  const index = await loadCacheIndex();
+  let total = [...index.values()].reduce((sum, entry) => sum + entry.size, 0);
+  if (total <= CACHE_MAX_BYTES) {
+    return;
+  }
+  const byAge = [...index.values()].sort((a, b) => a.last_accessed - b.last_accessed);
+  for (const entry of byAge) {
+    if (total <= CACHE_MAX_BYTES) {
+      break;
+    }
+    await fs.rm(join(CACHE_DIR, entry.file), { force: true });
+    index.delete(entry.key);
+    total -= entry.size;
+    cacheStats.evictions++;
+  }
+}
+
+// Remove cache entries matching a filter and report what was freed
+async function clearCacheEntries(filter: (entry: CacheEntry) => boolean): Promise<{ removed: number; bytes: number }> {
+  const index = await loadCacheIndex();
+  let removed = 0;
+  let bytes = 0;
+  for (const entry of [...index.values()]) {
+    if (!filter(entry)) {
+      continue;
+    }
+    await fs.rm(join(CACHE_DIR, entry.file), { force: true });
+    index.delete(entry.key);
+    removed++;
+    bytes += entry.size;
+  }
+  await saveCacheIndex();
+  return { removed, bytes };
+}
+
+// Google Street View Static API provider
+function createGoogleProvider(apiKey: string | undefined, baseUrl: string): ImageryProvider {
+  const metadataUrl = `${baseUrl}/metadata`;
+
+  return {
+    name: 'google',
+
+    // Enhanced API request wrapper with error handling
+    async fetchImage(params: Record<string, any>): Promise<Buffer> {
+      try {
+        if (!apiKey) {
+          throw new StreetViewError('NOT_CONFIGURED', "GOOGLE_API_KEY not found in environment variables. Please set your Google Maps API key.");
+        }
+
+        log('info', 'Making API request', { url: baseUrl, params });
+
+        const response: AxiosResponse<Buffer> = await axios.get(baseUrl, {
+          params: {
+            ...params,
+            key: apiKey,
           },
-          required: [],
-        },
-      },
-      {
-        name: "create_html_page",
-        description: "Create an HTML page that displays multiple Street View images as a virtual tour.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            filename: {
-              type: "string",
-              description: "Name of the HTML file to create (without directory path)",
-            },
-            title: {
-              type: "string",
-              description: "Title for the HTML page",
-              default: "Street View Tour"
-            },
-            html_elements: {
-              type: "array",
-              items: { type: "string" },
-              description: "List of content HTML elements (just the body content, no need for HTML structure). When including Street View images, use relative path to the saved image file",
-            },
+          timeout: REQUEST_TIMEOUT,
+          responseType: 'arraybuffer',
+        });
+
+        log('info', 'API request successful', { status: response.status });
+        return Buffer.from(response.data);
+      } catch (error) {
+        if (axios.isAxiosError(error)) {
+          if (error.response) {
+            log('error', 'API request failed with response', {
+              status: error.response.status,
+              statusText: error.response.statusText,
+            });
+            throw errorFromHttpStatus(error.response.status, `API request failed: ${error.response.status} ${error.response.statusText}`);
+          } else if (error.request) {
+            log('error', 'API request failed - no response received', { message: error.message });
+            throw new StreetViewError('NETWORK_ERROR', `Network error: ${error.message}`, true);
+          }
+        }
+        if (error instanceof StreetViewError) {
+          throw error;
+        }
+        log('error', 'Unexpected error during API request', { error: error instanceof Error ? error.message : error });
+        throw new Error(`Unexpected error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    },
+
+    // Enhanced metadata API request
+    async fetchMetadata(params: Record<string, any>): Promise<StreetViewMetadata> {
+      try {
+        if (!apiKey) {
+          throw new StreetViewError('NOT_CONFIGURED', "GOOGLE_API_KEY not found in environment variables. Please set your Google Maps API key.");
+        }
+
+        log('info', 'Making metadata API request', { url: metadataUrl, params });
+
+        const response: AxiosResponse<StreetViewMetadata> = await axios.get(metadataUrl, {
+          params: {
+            ...params,
+            key: apiKey,
           },
-          required: ["filename", "html_elements"],
-        },
-      },
-      {
-        name: "list_saved_images",
-        description: "List all saved Street View images in the output directory.",
-        inputSchema: {
-          type: "object",
-          properties: {},
-          required: [],
-        },
-      },
-    ],
+          timeout: REQUEST_TIMEOUT,
+        });
+
+        log('info', 'Metadata API request successful', { status: response.status });
+        return response.data;
+      } catch (error) {
+        if (axios.isAxiosError(error)) {
+          if (error.response) {
+            log('error', 'Metadata API request failed with response', {
+              status: error.response.status,
+              statusText: error.response.statusText,
+            });
+            throw errorFromHttpStatus(error.response.status, `Metadata API request failed: ${error.response.status} ${error.response.statusText}`);
+          } else if (error.request) {
+            log('error', 'Metadata API request failed - no response received', { message: error.message });
+            throw new StreetViewError('NETWORK_ERROR', `Network error: ${error.message}`, true);
+          }
+        }
+        if (error instanceof StreetViewError) {
+          throw error;
+        }
+        log('error', 'Unexpected error during metadata API request', { error: error instanceof Error ? error.message : error });
+        throw new Error(`Unexpected error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    },
   };
-});
+}
+
+// Filesystem fixture provider for offline tests and demos
+//
+// Layout of the fixture directory:
+//   metadata/<pano_id>.json   Street View metadata responses (status, pano_id, location, date, copyright)
+//   images/<pano_id>.jpg      Image served for the panorama, or images/<pano_id>_<heading>.jpg per heading
+//   locations.json            Optional map of address strings to pano_ids
+// Coordinate lookups snap to the nearest panorama within the requested radius.
+function createFixtureProvider(fixtureDir: string): ImageryProvider {
+  let panoramas: StreetViewMetadata[] | null = null;
+  let addresses: Record<string, string> | null = null;
+
+  async function loadFixtures(): Promise<void> {
+    if (panoramas && addresses) {
+      return;
+    }
+    const metadataDir = join(fixtureDir, 'metadata');
+    const files = await fs.readdir(metadataDir).catch(() => [] as string[]);
+    panoramas = await Promise.all(
+      files
+        .filter(file => file.endsWith('.json'))
+        .map(async file => JSON.parse(await fs.readFile(join(metadataDir, file), 'utf-8')) as StreetViewMetadata)
+    );
+    try {
+      const raw = JSON.parse(await fs.readFile(join(fixtureDir, 'locations.json'), 'utf-8')) as Record<string, string>;
+      addresses = Object.fromEntries(Object.entries(raw).map(([address, pano]) => [address.trim().toLowerCase(), pano]));
+    } catch {
+      addresses = {};
+    }
+  }
+
+  async function resolve(params: Record<string, any>): Promise<StreetViewMetadata | undefined> {
+    await loadFixtures();
+    if (params.pano) {
+      return panoramas!.find(pano => pano.pano_id === params.pano);
+    }
+    const location = String(params.location ?? '').trim();
+    if (/^-?\d+(\.\d+)?\s*,\s*-?\d+(\.\d+)?$/.test(location)) {
+      const point = parseLatLng(location);
+      const radius = Number(params.radius ?? 50);
+      let nearest: { metadata: StreetViewMetadata; distance: number } | undefined;
+      for (const metadata of panoramas!) {
+        if (!metadata.location) {
+          continue;
+        }
+        const distance = distanceMeters(point, [metadata.location.lat, metadata.location.lng]);
+        if (distance <= radius && (!nearest || distance < nearest.distance)) {
+          nearest = { metadata, distance };
+        }
+      }
+      return nearest?.metadata;
+    }
+    const panoId = addresses![location.toLowerCase()];
+    return panoId ? panoramas!.find(pano => pano.pano_id === panoId) : undefined;
+  }
+
+  return {
+    name: 'fixture',
+
+    async fetchMetadata(params: Record<string, any>): Promise<StreetViewMetadata> {
+      const metadata = await resolve(params);
+      log('info', 'Fixture metadata lookup', { params, found: !!metadata });
+      return metadata ?? { status: 'ZERO_RESULTS' };
+    },
+
+    async fetchImage(params: Record<string, any>): Promise<Buffer> {
+      const metadata = await resolve(params);
+      if (!metadata?.pano_id) {
+        throw new StreetViewError('NO_IMAGERY', "API request failed: 404 Not Found", false, 404);
+      }
+
+      // Prefer the per-heading image closest to the requested heading
+      const imagesDir = join(fixtureDir, 'images');
+      const files = await fs.readdir(imagesDir).catch(() => [] as string[]);
+      const heading = Number(params.heading ?? 0);
+      const angleTo = (value: number) => Math.min(Math.abs(value - heading), 360 - Math.abs(value - heading));
+      const filePattern = new RegExp(`^${escapeRegExp(metadata.pano_id)}(?:_(\\d+(?:\\.\\d+)?))?\\.(jpe?g|png|webp)$`, 'i');
+      let chosen: string | undefined;
+      let bestAngle = Infinity;
+      for (const file of files) {
+        const match = filePattern.exec(file);
+        if (!match) {
+          continue;
+        }
+        const angle = match[1] === undefined ? 180 : angleTo(Number(match[1]));
+        if (angle < bestAngle) {
+          chosen = file;
+          bestAngle = angle;
+        }
+      }
+      if (!chosen) {
+        throw new StreetViewError('NO_IMAGERY', `No fixture image for panorama ${metadata.pano_id}`);
+      }
+
+      const [width, height] = parseSize(String(params.size ?? '600x400'));
+      log('info', 'Serving fixture image', { file: chosen, size: params.size });
+      return sharp(join(imagesDir, chosen))
+        .resize(width, height, { fit: 'cover' })
+        .jpeg({ quality: 95 })
+        .toBuffer();
+    },
+  };
+}
 
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
+// Select the imagery provider from the settings
+function createImageryProvider(): ImageryProvider {
+  const providerName = SETTINGS.provider;
+  switch (providerName) {
+    case 'google':
+      return createGoogleProvider(GOOGLE_API_KEY, BASE_URL);
+    case 'fixture': {
+      const fixtureDir = SETTINGS.fixture_dir;
+      if (!fixtureDir) {
+        throw new Error("STREET_VIEW_FIXTURE_DIR (fixture_dir) must be set when the provider is 'fixture'");
+      }
+      return createFixtureProvider(fixtureDir);
+    }
+    default:
+      throw new Error(`Unknown imagery provider: ${providerName}`);
+  }
+}
+
+let imageryProvider: ImageryProvider | null = null;
+
+function getImageryProvider(): ImageryProvider {
+  if (!imageryProvider) {
+    imageryProvider = createImageryProvider();
+  }
+  return imageryProvider;
+}
+
+// Tool currently being handled and the session's directories, for usage counters and file placement;
+// batch calls may also override the retry policy for their items
+const requestContext = new AsyncLocalStorage<{
+  tool: string;
+  outputDir?: string;
+  htmlDir?: string;
+  changedFiles?: Set<string>;
+  retries?: number;
+  retryDelayMs?: number;
+}>();
+
+// Record a file the current tool call created, replaced or removed, for resource notifications
+function noteResourceChange(filePath: string) {
+  requestContext.getStore()?.changedFiles?.add(resolve(filePath));
+}
+
+let usageLog: UsageLog | null = null;
+// File the loaded log belongs to; a changed usage_file setting loads a fresh log
+let usageLogFile = '';
+let usageLogWrite: Promise<void> = Promise.resolve();
+let usageLogFlush: NodeJS.Timeout | null = null;
+let nextRequestAt = 0;
+// Counters live in memory; the file is rewritten at most this often and once more on exit
+const USAGE_LOG_FLUSH_MS = 2000;
+
+function emptyUsageCounters(): UsageCounters {
+  return { image: 0, metadata: 0, geocode: 0, cache_hits: 0, cost: 0 };
+}
+
+async function loadUsageLog(): Promise<UsageLog> {
+  if (usageLog && usageLogFile !== USAGE_FILE) {
+    // Write the previous file's pending counters before switching
+    if (usageLogFlush) {
+      await saveUsageLog();
+    }
+    usageLog = null;
+  }
+  if (!usageLog) {
+    const file = USAGE_FILE;
+    let loaded: UsageLog;
+    try {
+      loaded = JSON.parse(await fs.readFile(file, 'utf-8')) as UsageLog;
+    } catch {
+      loaded = { days: {} };
+    }
+    // Concurrent callers may have loaded it while this one was reading
+    if (!usageLog) {
+      usageLog = loaded;
+      usageLogFile = file;
+    }
+  }
+  return usageLog;
+}
+
+// Drop days older than roughly a year
+function pruneUsageLog(usage: UsageLog): void {
+  const cutoff = new Date(Date.now() - 400 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  for (const day of Object.keys(usage.days)) {
+    if (day < cutoff) {
+      delete usage.days[day];
+    }
+  }
+}
+
+// Persist the usage log; writes are chained so they never interleave
+function saveUsageLog(): Promise<void> {
+  if (usageLogFlush) {
+    clearTimeout(usageLogFlush);
+    usageLogFlush = null;
+  }
+  const usage = usageLog;
+  const file = usageLogFile;
+  usageLogWrite = usageLogWrite.then(async () => {
+    if (!usage) {
+      return;
+    }
+    pruneUsageLog(usage);
+    await fs.mkdir(dirname(file), { recursive: true });
+    const tempPath = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(usage), 'utf-8');
+    await fs.rename(tempPath, file);
+  }).catch((error) => {
+    log('warn', 'Failed to write usage log', { error: error instanceof Error ? error.message : error });
+  });
+  return usageLogWrite;
+}
+
+function scheduleUsageLogSave(): void {
+  if (usageLogFlush) {
+    return;
+  }
+  usageLogFlush = setTimeout(() => {
+    usageLogFlush = null;
+    void saveUsageLog();
+  }, USAGE_LOG_FLUSH_MS);
+  usageLogFlush.unref();
+}
+
+// Write pending counters synchronously when the process exits
+function flushUsageLogSync(): void {
+  if (!usageLog || !usageLogFlush) {
+    return;
+  }
+  clearTimeout(usageLogFlush);
+  usageLogFlush = null;
+  try {
+    pruneUsageLog(usageLog);
+    mkdirSync(dirname(usageLogFile), { recursive: true });
+    writeFileSync(usageLogFile, JSON.stringify(usageLog), 'utf-8');
+  } catch (error) {
+    log('warn', 'Failed to write usage log on exit', { error: error instanceof Error ? error.message : error });
+  }
+}
+
+// Sum the per-day totals whose key starts with a prefix ('YYYY-MM-DD' or 'YYYY-MM')
+function sumUsage(usage: UsageLog, prefix: string): UsageCounters {
+  const total = emptyUsageCounters();
+  for (const [day, entry] of Object.entries(usage.days)) {
+    if (day.startsWith(prefix)) {
+      total.image += entry.total.image;
+      total.metadata += entry.total.metadata;
+      total.geocode += entry.total.geocode;
+      total.cache_hits += entry.total.cache_hits;
+      total.cost += entry.total.cost;
+    }
+  }
+  return total;
+}
+
+// Counters with the estimated cost rounded for display
+function formatUsage(counters: UsageCounters): UsageCounters & { requests: number } {
+  return {
+    ...counters,
+    requests: counters.image + counters.metadata + counters.geocode,
+    cost: Math.round(counters.cost * 10000) / 10000,
+  };
+}
+
+// Estimated cost of one request; only the Google APIs are billed
+function requestCost(kind: UsageKind, providerName: string): number {
+  return providerName === 'google' ? PRICE_PER_1000[kind] / 1000 : 0;
+}
+
+// Add a request or cache hit to today's total and to the current tool; a count of -1 takes a request back
+function countUsage(usage: UsageLog, kind: UsageKind | 'cache_hit', providerName: string, count = 1): void {
+  const day = new Date().toISOString().slice(0, 10);
+  const entry = usage.days[day] ??= { total: emptyUsageCounters(), tools: {} };
+  const tool = requestContext.getStore()?.tool ?? 'unknown';
+  for (const counters of [entry.total, entry.tools[tool] ??= emptyUsageCounters()]) {
+    if (kind === 'cache_hit') {
+      counters.cache_hits += count;
+    } else {
+      counters[kind] += count;
+      counters.cost += count * requestCost(kind, providerName);
+    }
+  }
+}
+
+async function recordCacheHit(providerName: string): Promise<void> {
+  countUsage(await loadUsageLog(), 'cache_hit', providerName);
+  scheduleUsageLogSave();
+}
+
+// Stop requests that would exceed a budget, count the rest, then wait for a slot under the rate limit
+async function governRequest(kind: UsageKind, providerName: string): Promise<void> {
+  const usage = await loadUsageLog();
+  const now = new Date().toISOString();
+  const today = sumUsage(usage, now.slice(0, 10));
+  const cost = requestCost(kind, providerName);
+
+  if (DAILY_REQUEST_LIMIT > 0 && today.image + today.metadata + today.geocode >= DAILY_REQUEST_LIMIT) {
+    throw new StreetViewError('BUDGET_EXCEEDED', `Daily request limit of ${DAILY_REQUEST_LIMIT} reached. Raise STREET_VIEW_DAILY_REQUEST_LIMIT or wait until tomorrow (UTC)`);
+  }
+  if (cost > 0 && DAILY_BUDGET > 0 && today.cost + cost > DAILY_BUDGET) {
+    throw new StreetViewError('BUDGET_EXCEEDED', `Daily budget of $${DAILY_BUDGET.toFixed(2)} exhausted ($${today.cost.toFixed(2)} spent today). Raise STREET_VIEW_DAILY_BUDGET or wait until tomorrow (UTC)`);
+  }
+  if (cost > 0 && MONTHLY_BUDGET > 0) {
+    const month = sumUsage(usage, now.slice(0, 7));
+    if (month.cost + cost > MONTHLY_BUDGET) {
+      throw new StreetViewError('BUDGET_EXCEEDED', `Monthly budget of $${MONTHLY_BUDGET.toFixed(2)} exhausted ($${month.cost.toFixed(2)} spent this month). Raise STREET_VIEW_MONTHLY_BUDGET or wait until next month (UTC)`);
+    }
+  }
+  // Counted before the request goes out so concurrent callers see each other;
+  // requestWithRetry takes the count back if the attempt fails
+  countUsage(usage, kind, providerName);
+  scheduleUsageLogSave();
+
+  if (RATE_LIMIT_PER_SECOND > 0) {
+    const slot = Math.max(Date.now(), nextRequestAt);
+    nextRequestAt = slot + 1000 / RATE_LIMIT_PER_SECOND;
+    await sleep(slot - Date.now());
+  }
+}
+
+// Send a provider request through the governor, retrying transient failures with jittered backoff.
+// Only attempts that succeed stay counted: failed ones (network errors, error statuses) are not billed
+async function requestWithRetry<T>(kind: UsageKind, providerName: string, request: () => Promise<T>): Promise<T> {
+  const context = requestContext.getStore();
+  const maxRetries = context?.retries ?? MAX_RETRIES;
+  const baseDelay = context?.retryDelayMs ?? RETRY_BASE_DELAY_MS;
+  for (let attempt = 1; ; attempt++) {
+    await governRequest(kind, providerName);
+    try {
+      return await request();
+    } catch (error) {
+      countUsage(await loadUsageLog(), kind, providerName, -1);
+      scheduleUsageLogSave();
+      if (attempt > maxRetries || !isTransientError(error)) {
+        throw error;
+      }
+      const backoff = baseDelay * 2 ** (attempt - 1);
+      log('warn', 'Retrying transient API failure', { kind, attempt, error: error instanceof Error ? error.message : error });
+      await sleep(backoff / 2 + Math.random() * backoff / 2);
+    }
+  }
+}
+
+// Fetch an image through the cache and the configured provider
+async function makeApiRequest(params: Record<string, any>): Promise<Buffer> {
+  const provider = getImageryProvider();
+  const cached = await readCache('image', provider.name, params);
+  if (cached) {
+    await recordCacheHit(provider.name);
+    return cached;
+  }
+  if (OFFLINE_MODE) {
+    throw new StreetViewError('OFFLINE_CACHE_MISS', "Offline mode: no cached image for this request");
+  }
+
+  const imageBuffer = await requestWithRetry('image', provider.name, () => provider.fetchImage(params));
+  await writeCache('image', provider.name, params, imageBuffer);
+  return imageBuffer;
+}
+
+// Fetch metadata through the cache and the configured provider
+async function makeMetadataRequest(params: Record<string, any>): Promise<StreetViewMetadata> {
+  const provider = getImageryProvider();
+  const cached = await readCache('metadata', provider.name, params);
+  if (cached) {
+    await recordCacheHit(provider.name);
+    return JSON.parse(cached.toString('utf-8')) as StreetViewMetadata;
+  }
+  if (OFFLINE_MODE) {
+    throw new StreetViewError('OFFLINE_CACHE_MISS', "Offline mode: no cached metadata for this request");
+  }
+
+  // Definitive answers are returned and cached; quota, auth and server failures are raised
+  const metadata = await requestWithRetry('metadata', provider.name, async () => {
+    const response = await provider.fetchMetadata(params);
+    if (!['OK', 'ZERO_RESULTS', 'NOT_FOUND'].includes(response.status)) {
+      throw errorFromApiStatus(response.status, `Metadata API returned ${response.status}`);
+    }
+    return response;
+  });
+  await writeCache('metadata', provider.name, params, Buffer.from(JSON.stringify(metadata), 'utf-8'));
+  return metadata;
+}
+
+// Google Geocoding API provider
+function createGoogleGeocoder(apiKey: string | undefined, url: string): GeocodingProvider {
+  async function request(params: Record<string, any>): Promise<GeocodeResult[]> {
+    try {
+      if (!apiKey) {
+        throw new StreetViewError('NOT_CONFIGURED', "GOOGLE_API_KEY not found in environment variables. Please set your Google Maps API key.");
+      }
+
+      log('info', 'Making geocoding API request', { url, params });
+
+      const response: AxiosResponse<{ status: string; results?: any[]; error_message?: string }> = await axios.get(url, {
+        params: {
+          ...params,
+          key: apiKey,
+        },
+        timeout: REQUEST_TIMEOUT,
+      });
+
+      const { status, results = [], error_message } = response.data;
+      if (status !== 'OK' && status !== 'ZERO_RESULTS') {
+        throw errorFromApiStatus(status, `Geocoding API returned ${status}${error_message ? `: ${error_message}` : ''}`);
+      }
+      return results.map(result => ({
+        formatted_address: result.formatted_address,
+        location: result.geometry.location,
+        place_id: result.place_id,
+        types: result.types,
+      }));
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        if (error.response) {
+          log('error', 'Geocoding API request failed with response', {
+            status: error.response.status,
+            statusText: error.response.statusText,
+          });
+          throw errorFromHttpStatus(error.response.status, `Geocoding API request failed: ${error.response.status} ${error.response.statusText}`);
+        } else if (error.request) {
+          log('error', 'Geocoding API request failed - no response received', { message: error.message });
+          throw new StreetViewError('NETWORK_ERROR', `Network error: ${error.message}`, true);
+        }
+      }
+      throw error;
+    }
+  }
+
+  return {
+    name: 'google',
+    geocode: (address) => request({ address }),
+    reverseGeocode: (point) => request({ latlng: `${point[0]},${point[1]}` }),
+  };
+}
+
+// Offline gazetteer provider
+//
+// Reads a JSON array of { "address", "lat", "lng", "aliases"?, "place_id"? } entries. Without a
+// gazetteer file, the fixture directory's locations.json addresses are placed at their panoramas.
+function createGazetteerGeocoder(gazetteerFile: string | undefined, fixtureDir: string | undefined): GeocodingProvider {
+  let entries: { address: string; names: string[]; point: LatLng; place_id?: string }[] | null = null;
+
+  async function loadEntries() {
+    if (entries) {
+      return entries;
+    }
+    if (gazetteerFile) {
+      const raw = JSON.parse(await fs.readFile(gazetteerFile, 'utf-8')) as
+        { address: string; lat: number; lng: number; aliases?: string[]; place_id?: string }[];
+      entries = raw.map(entry => ({
+        address: entry.address,
+        names: [entry.address, ...(entry.aliases ?? [])].map(name => name.trim().toLowerCase()),
+        point: [entry.lat, entry.lng] as LatLng,
+        place_id: entry.place_id,
+      }));
+    } else {
+      entries = [];
+      const locations = JSON.parse(await fs.readFile(join(fixtureDir!, 'locations.json'), 'utf-8').catch(() => '{}')) as Record<string, string>;
+      for (const [address, panoId] of Object.entries(locations)) {
+        const metadata = JSON.parse(
+          await fs.readFile(join(fixtureDir!, 'metadata', `${panoId}.json`), 'utf-8').catch(() => '{}')
+        ) as StreetViewMetadata;
+        if (metadata.location) {
+          entries.push({ address, names: [address.trim().toLowerCase()], point: [metadata.location.lat, metadata.location.lng] });
+        }
+      }
+    }
+    return entries;
+  }
+
+  const toResult = (entry: { address: string; point: LatLng; place_id?: string }): GeocodeResult => ({
+    formatted_address: entry.address,
+    location: { lat: entry.point[0], lng: entry.point[1] },
+    place_id: entry.place_id,
+  });
+
+  return {
+    name: 'gazetteer',
+
+    // Exact names rank first, then names containing every word of the query
+    async geocode(address) {
+      const query = address.trim().toLowerCase();
+      const words = query.split(/[\s,]+/).filter(Boolean);
+      const scored = (await loadEntries())
+        .map(entry => ({
+          entry,
+          score: entry.names.includes(query) ? 2 : entry.names.some(name => words.every(word => name.includes(word))) ? 1 : 0,
+        }))
+        .filter(match => match.score > 0)
+        .sort((a, b) => b.score - a.score);
+      log('info', 'Gazetteer geocode', { address, matches: scored.length });
+      return scored.map(match => toResult(match.entry));
+    },
+
+    // Only entries within 500 m count as the address of a point
+    async reverseGeocode(point) {
+      return (await loadEntries())
+        .map(entry => ({ entry, distance: distanceMeters(point, entry.point) }))
+        .filter(match => match.distance <= 500)
+        .sort((a, b) => a.distance - b.distance)
+        .map(match => toResult(match.entry));
+    },
+  };
+}
+
+// Select the geocoder from the settings; it follows the imagery provider unless set explicitly
+function createGeocodingProvider(): GeocodingProvider {
+  const geocoderName = SETTINGS.geocoder ?? (SETTINGS.provider === 'fixture' ? 'gazetteer' : 'google');
+  switch (geocoderName) {
+    case 'google':
+      return createGoogleGeocoder(GOOGLE_API_KEY, GEOCODING_URL);
+    case 'gazetteer': {
+      const gazetteerFile = SETTINGS.gazetteer;
+      const fixtureDir = SETTINGS.fixture_dir;
+      if (!gazetteerFile && !fixtureDir) {
+        throw new Error("STREET_VIEW_GAZETTEER or STREET_VIEW_FIXTURE_DIR must be set when the geocoder is 'gazetteer'");
+      }
+      return createGazetteerGeocoder(gazetteerFile, fixtureDir);
+    }
+    default:
+      throw new Error(`Unknown geocoder: ${geocoderName}`);
+  }
+}
+
+let geocodingProvider: GeocodingProvider | null = null;
+
+function getGeocodingProvider(): GeocodingProvider {
+  if (!geocodingProvider) {
+    geocodingProvider = createGeocodingProvider();
+  }
+  return geocodingProvider;
+}
+
+// Geocode an address or a point through the cache and the configured geocoder
+async function makeGeocodeRequest(query: { address: string } | { point: LatLng }): Promise<GeocodeResult[]> {
+  const provider = getGeocodingProvider();
+  const params = 'address' in query
+    ? { address: query.address.trim() }
+    : { latlng: `${query.point[0].toFixed(6)},${query.point[1].toFixed(6)}` };
+  const cached = await readCache('geocode', provider.name, params);
+  if (cached) {
+    await recordCacheHit(provider.name);
+    return JSON.parse(cached.toString('utf-8')) as GeocodeResult[];
+  }
+  if (OFFLINE_MODE) {
+    throw new StreetViewError('OFFLINE_CACHE_MISS', "Offline mode: no cached geocoding result for this request");
+  }
+
+  const results = await requestWithRetry('geocode', provider.name, () =>
+    'address' in query ? provider.geocode(query.address) : provider.reverseGeocode(query.point)
+  );
+  await writeCache('geocode', provider.name, params, Buffer.from(JSON.stringify(results), 'utf-8'));
+  return results;
+}
+
+// Look up an address for enrichment only; failures are logged and ignored
+async function lookupAddress(point: LatLng | undefined): Promise<string | undefined> {
+  if (!point) {
+    return undefined;
+  }
+  try {
+    return (await makeGeocodeRequest({ point }))[0]?.formatted_address;
+  } catch (error) {
+    log('warn', 'Reverse geocoding for address enrichment failed', { error: error instanceof Error ? error.message : error });
+    return undefined;
+  }
+}
+
+// Resolve a point given as 'lat,lng' or as an address snapped through the metadata API
+async function resolvePoint(value: string, source: string): Promise<LatLng> {
+  if (/^\s*-?\d+(\.\d+)?\s*,\s*-?\d+(\.\d+)?\s*$/.test(value)) {
+    return parseLatLng(value);
+  }
+  const metadata = await makeMetadataRequest({ location: value, source });
+  if (metadata.status !== 'OK' || !metadata.location) {
+    throw new Error(`Could not resolve location '${value}': ${metadata.status}`);
+  }
+  return [metadata.location.lat, metadata.location.lng];
+}
+
+// Utility function to wait for a number of milliseconds
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Network failures, rate limiting and server errors are worth retrying
+function isTransientError(error: unknown): boolean {
+  return error instanceof StreetViewError && error.retryable;
+}
+
+// Run an async worker over items with at most `limit` in flight, preserving order
+async function runWithConcurrency<T, R>(items: T[], limit: number, worker: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  });
+  await Promise.all(runners);
+  return results;
+}
+
+// GeoJSON point feature written by probe_coverage
+interface PointFeature {
+  type: "Feature";
+  geometry: { type: "Point"; coordinates: [number, number] };
+  properties: Record<string, unknown>;
+}
+
+// Build a grid of points covering a bounding box or a circle, spaced in meters.
+// Stops as soon as the grid grows past maxPoints, so oversized areas fail without filling memory
+function buildProbeGrid(
+  area: { bbox: [number, number, number, number] } | { center: LatLng; radius: number },
+  spacing: number,
+  maxPoints: number
+): LatLng[] {
+  let south: number, west: number, north: number, east: number;
+  if ('bbox' in area) {
+    [south, west, north, east] = area.bbox;
+  } else {
+    [south, west] = offsetPoint(area.center, -area.radius, -area.radius);
+    [north, east] = offsetPoint(area.center, area.radius, area.radius);
+  }
+
+  const points: LatLng[] = [];
+  const rows = Math.floor(distanceMeters([south, west], [north, west]) / spacing);
+  for (let row = 0; row <= rows; row++) {
+    const [lat] = offsetPoint([south, west], row * spacing, 0);
+    const columns = Math.floor(distanceMeters([lat, west], [lat, east]) / spacing);
+    for (let column = 0; column <= columns; column++) {
+      const point = offsetPoint([lat, west], 0, column * spacing);
+      if ('center' in area && distanceMeters(area.center, point) > area.radius) {
+        continue;
+      }
+      points.push(point);
+      if (points.length > maxPoints) {
+        throw new Error(`Grid has more than max_points (${maxPoints}) points. Increase spacing or max_points`);
+      }
+    }
+  }
+  return points;
+}
+
+// Sample points around a center: the center itself plus evenly spaced rings
+function buildRingOffsets(center: LatLng, radius: number, rings: number, pointsPerRing: number): LatLng[] {
+  const points: LatLng[] = [center];
+  for (let ring = 1; ring <= rings; ring++) {
+    const distance = radius * ring / rings;
+    for (let i = 0; i < pointsPerRing; i++) {
+      const angle = toRadians(i * 360 / pointsPerRing);
+      points.push(offsetPoint(center, distance * Math.cos(angle), distance * Math.sin(angle)));
+    }
+  }
+  return points;
+}
+
+// Group panoramas by capture date ('YYYY-MM'), oldest first; undated panoramas go last
+function groupByCaptureDate<T extends { metadata: StreetViewMetadata }>(panoramas: T[]): { date: string; panoramas: T[] }[] {
+  const groups = new Map<string, T[]>();
+  for (const panorama of panoramas) {
+    const date = panorama.metadata.date || 'unknown';
+    groups.set(date, [...(groups.get(date) ?? []), panorama]);
+  }
+  return [...groups.entries()]
+    .sort(([a], [b]) => (a === 'unknown' ? 1 : b === 'unknown' ? -1 : a.localeCompare(b)))
+    .map(([date, grouped]) => ({ date, panoramas: grouped }));
+}
+
+// HTML sanitizer allowlists
+// Elements dropped together with everything inside them
+const HTML_DROPPED_ELEMENTS = new Set([
+  'script', 'style', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet', 'noscript',
+  'template', 'svg', 'math', 'link', 'meta', 'base', 'title', 'input', 'button', 'select',
+  'textarea', 'option', 'canvas', 'portal',
+]);
+const HTML_VOID_ELEMENTS = new Set(['br', 'hr', 'img', 'source', 'col', 'wbr']);
+const HTML_STRICT_TAGS = new Set([
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'p', 'div', 'span', 'section', 'article', 'header', 'footer',
+  'figure', 'figcaption', 'img', 'a', 'ul', 'ol', 'li', 'strong', 'em', 'b', 'i', 'br', 'hr',
+  'blockquote', 'table', 'thead', 'tbody', 'tfoot', 'tr', 'th', 'td', 'caption', 'small', 'code', 'pre',
+]);
+const HTML_PERMISSIVE_TAGS = new Set([
+  ...HTML_STRICT_TAGS,
+  'video', 'audio', 'source', 'picture', 'details', 'summary', 'mark', 'abbr', 'cite', 'time',
+  'colgroup', 'col', 'sup', 'sub', 'u', 's', 'nav', 'main', 'aside', 'dl', 'dt', 'dd', 'wbr',
+]);
+const HTML_GLOBAL_ATTRIBUTES = new Set(['class', 'id', 'title', 'lang', 'dir']);
+const HTML_TAG_ATTRIBUTES: Record<string, string[]> = {
+  a: ['href', 'target', 'rel'],
+  img: ['src', 'alt', 'width', 'height', 'loading'],
+  td: ['colspan', 'rowspan'],
+  th: ['colspan', 'rowspan', 'scope'],
+  ol: ['start', 'type'],
+  time: ['datetime'],
+  video: ['src', 'controls', 'loop', 'muted', 'poster', 'width', 'height'],
+  audio: ['src', 'controls', 'loop', 'muted'],
+  source: ['src', 'type'],
+  col: ['span'],
+  colgroup: ['span'],
+};
+const HTML_URL_ATTRIBUTES = new Set(['href', 'src', 'poster']);
+
+// Classify a URL by scheme; relative URLs have no scheme
+function urlScheme(url: string): string | null {
+  // Browsers ignore whitespace and control characters inside schemes
+  const compact = url.replace(/[\u0000-\u0020\u007f]/g, '');
+  const match = /^([a-z][a-z0-9+.-]*):/i.exec(compact);
+  return match ? match[1].toLowerCase() : compact.startsWith('//') ? 'https' : null;
+}
+
+// Collect every <img src> in a fragment so they can be checked on disk before sanitizing
+function collectImageSources(html: string): string[] {
+  const sources: string[] = [];
+  const parser = new Parser({
+    onopentag(name, attributes) {
+      if (name === 'img' && attributes.src) {
+        sources.push(attributes.src);
+      }
+    },
+  }, { decodeEntities: true, lowerCaseTags: true, lowerCaseAttributeNames: true });
+  parser.write(html);
+  parser.end();
+  return sources;
+}
+
+// File path part of a relative image source, or undefined when its escapes are malformed (e.g. "100%.jpg")
+function decodeImageSourcePath(src: string): string | undefined {
+  try {
+    return decodeURI(src.split(/[?#]/)[0]);
+  } catch {
+    return undefined;
+  }
+}
+
+// Check where an image source points relative to the HTML directory
+async function checkImageSource(src: string, htmlDir: string, outputDir: string): Promise<ImageSourceStatus> {
+  const scheme = urlScheme(src);
+  if (scheme === 'http' || scheme === 'https') {
+    return 'remote';
+  }
+  if (scheme === 'data') {
+    return /^data:image\/(png|jpe?g|gif|webp|avif);/i.test(src.trim()) ? 'data' : 'invalid';
+  }
+  if (scheme !== null || isAbsolute(src)) {
+    return 'invalid';
+  }
+  const decoded = decodeImageSourcePath(src);
+  if (decoded === undefined) {
+    return 'invalid';
+  }
+  const target = resolve(htmlDir, decoded);
+  const inside = [outputDir, htmlDir].some(root => target === resolve(root) || target.startsWith(resolve(root) + sep));
+  if (!inside) {
+    return 'outside';
+  }
+  try {
+    await fs.access(target);
+    return 'local';
+  } catch {
+    return 'missing';
+  }
+}
+
+// Rebuild an HTML fragment keeping only allowlisted tags, attributes and URLs
+function sanitizeHtml(
+  html: string,
+  mode: 'strict' | 'permissive',
+  imageStatus: Map<string, ImageSourceStatus>
+): { html: string; report: SanitizeReport } {
+  const report: SanitizeReport = {
+    mode,
+    removed_elements: {},
+    unwrapped_tags: {},
+    removed_attributes: [],
+    rejected_urls: [],
+    missing_images: [],
+  };
+  const allowedTags = mode === 'strict' ? HTML_STRICT_TAGS : HTML_PERMISSIVE_TAGS;
+  const count = (counts: Record<string, number>, name: string) => {
+    counts[name] = (counts[name] ?? 0) + 1;
+  };
+
+  // One entry per open element: keep it, drop only the tag, or drop it with its content
+  const stack: ('keep' | 'unwrap' | 'drop')[] = [];
+  let output = '';
+
+  // Decide whether an image may stay; returns false when the whole <img> must go
+  const acceptImage = (src: string): boolean => {
+    const status = imageStatus.get(src) ?? 'invalid';
+    switch (status) {
+      case 'local':
+        return true;
+      case 'missing':
+        report.missing_images.push(src);
+        return mode === 'permissive';
+      case 'remote':
+      case 'data':
+        if (mode === 'strict') {
+          report.rejected_urls.push(src);
+        }
+        return mode === 'permissive';
+      default:
+        report.rejected_urls.push(src);
+        return false;
+    }
+  };
+
+  const parser = new Parser({
+    onopentag(name, attributes) {
+      if (stack.includes('drop')) {
+        stack.push('drop');
+        return;
+      }
+      if (HTML_DROPPED_ELEMENTS.has(name)) {
+        count(report.removed_elements, name);
+        stack.push('drop');
+        return;
+      }
+      if (!allowedTags.has(name)) {
+        count(report.unwrapped_tags, name);
+        stack.push('unwrap');
+        return;
+      }
+
+      const allowedAttributes = new Set([...HTML_GLOBAL_ATTRIBUTES, ...(HTML_TAG_ATTRIBUTES[name] ?? [])]);
+      if (mode === 'permissive') {
+        allowedAttributes.add('style');
+      }
+      const kept: [string, string][] = [];
+      for (const [attribute, value] of Object.entries(attributes)) {
+        if (!allowedAttributes.has(attribute)) {
+          report.removed_attributes.push(`${name}.${attribute}`);
+          continue;
+        }
+        if (attribute === 'style' && /expression\s*\(|javascript:|url\s*\(|@import/i.test(value)) {
+          report.removed_attributes.push(`${name}.${attribute}`);
+          continue;
+        }
+        if (name === 'img' && attribute === 'src') {
+          if (!acceptImage(value)) {
+            count(report.removed_elements, 'img');
+            stack.push('drop');
+            return;
+          }
+        } else if (HTML_URL_ATTRIBUTES.has(attribute)) {
+          const scheme = urlScheme(value);
+          const safeSchemes = name === 'a' ? ['http', 'https', 'mailto'] : mode === 'permissive' ? ['http', 'https'] : [];
+          if (scheme !== null && !safeSchemes.includes(scheme)) {
+            report.rejected_urls.push(value);
+            continue;
+          }
+        }
+        kept.push([attribute, value]);
+      }
+
+      if (name === 'img' && !kept.some(([attribute]) => attribute === 'src')) {
+        count(report.removed_elements, 'img');
+        stack.push('drop');
+        return;
+      }
+      // Links that open a new tab must not get a handle on this page
+      if (name === 'a' && kept.some(([attribute, value]) => attribute === 'target' && value === '_blank')) {
+        const others = kept.filter(([attribute]) => attribute !== 'rel');
+        kept.length = 0;
+        kept.push(...others, ['rel', 'noopener noreferrer']);
+      }
+
+      stack.push('keep');
+      output += `<${name}${kept.map(([attribute, value]) => ` ${attribute}="${escapeXml(value)}"`).join('')}>`;
+    },
+    ontext(text) {
+      if (!stack.includes('drop')) {
+        output += escapeXml(text);
+      }
+    },
+    onclosetag(name) {
+      const state = stack.pop();
+      if (state === 'keep' && !HTML_VOID_ELEMENTS.has(name)) {
+        output += `</${name}>`;
+      }
+    },
+  }, { decodeEntities: true, lowerCaseTags: true, lowerCaseAttributeNames: true, recognizeSelfClosing: true });
+  parser.write(html);
+  parser.end();
+
+  return { html: output, report };
+}
+
+// Replace every local <img src> in a generated page using a per-source callback
+async function rewritePageImages(
+  html: string,
+  htmlDir: string,
+  outputDir: string,
+  rewrite: (src: string, imagePath: string) => Promise<string>
+): Promise<{ html: string; rewritten: string[]; skipped: string[] }> {
+  const replacements = new Map<string, string>();
+  const skipped: string[] = [];
+  for (const src of new Set(collectImageSources(html))) {
+    if (await checkImageSource(src, htmlDir, outputDir) === 'local') {
+      // Local sources always decode; anything malformed was classified as invalid
+      const imagePath = resolve(htmlDir, decodeImageSourcePath(src)!);
+      replacements.set(src, await rewrite(src, imagePath));
+    } else {
+      skipped.push(src);
+    }
+  }
+  // Generated pages always write img attributes as src="<escaped value>"
+  const rewrittenHtml = html.replace(/(<img\b[^>]*?\ssrc=")([^"]*)(")/gi, (match, before, value, after) => {
+    const src = value.replace(/&quot;/g, '"').replace(/&#39;/g, "'").replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+    const replacement = replacements.get(src);
+    return replacement === undefined ? match : `${before}${escapeXml(replacement)}${after}`;
+  });
+  return { html: rewrittenHtml, rewritten: [...replacements.keys()], skipped };
+}
+
+// Downscale and re-encode an image for a portable export
+function optimizeExportImage(imagePath: string, width: number, quality: number): Promise<Buffer> {
+  return sharp(imagePath)
+    .resize({ width, withoutEnlargement: true })
+    .jpeg({ quality, mozjpeg: true })
+    .toBuffer();
+}
+
+// Produce the portable variant of a page: images inlined as data URIs, or a zip bundle beside the page
+async function exportHtmlPage(
+  html: string,
+  htmlFilename: string,
+  htmlDir: string,
+  outputDir: string,
+  options: { mode: 'none' | 'inline' | 'zip'; width: number; quality: number; overwrite?: boolean }
+): Promise<{ html: string; report?: Record<string, any> }> {
+  if (options.mode === 'none') {
+    return { html };
+  }
+
+  if (options.mode === 'inline') {
+    let bytes = 0;
+    const result = await rewritePageImages(html, htmlDir, outputDir, async (_src, imagePath) => {
+      const optimized = await optimizeExportImage(imagePath, options.width, options.quality);
+      bytes += optimized.length;
+      return `data:image/jpeg;base64,${optimized.toString('base64')}`;
+    });
+    return {
+      html: result.html,
+      report: {
+        mode: 'inline',
+        inlined_images: result.rewritten.length,
+        skipped_images: result.skipped,
+        image_bytes: `${Math.round(bytes / 1024)}KB`,
+      },
+    };
+  }
+
+  // Zip bundle: the page plus optimized copies of its images under images/
+  const zip = new JSZip();
+  const usedNames = new Set<string>();
+  const result = await rewritePageImages(html, htmlDir, outputDir, async (_src, imagePath) => {
+    const stem = basename(imagePath).replace(/\.[^.]+$/, '');
+    let entryName = `images/${stem}.jpg`;
+    for (let i = 2; usedNames.has(entryName); i++) {
+      entryName = `images/${stem}_${i}.jpg`;
+    }
+    usedNames.add(entryName);
+    zip.file(entryName, await optimizeExportImage(imagePath, options.width, options.quality));
+    return entryName;
+  });
+  zip.file(htmlFilename, result.html);
+
+  const zipFilename = htmlFilename.replace(/\.html$/, '.zip');
+  const zipPath = resolveInside(htmlDir, zipFilename);
+  if (!options.overwrite) {
+    await assertFileDoesNotExist(zipPath, zipFilename);
+  }
+  const archive = await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+  await fs.writeFile(zipPath, archive);
+  noteResourceChange(zipPath);
+
+  return {
+    html,
+    report: {
+      mode: 'zip',
+      bundle: zipFilename,
+      bundle_path: zipPath,
+      bundled_images: result.rewritten.length,
+      skipped_images: result.skipped,
+      size: `${Math.round(archive.length / 1024)}KB`,
+    },
+  };
+}
+
+type TourStop = z.infer<typeof TourStopSchema>;
+
+// Render a navigable tour page; stop image sources must already be relative to the page
+function renderTourHtml(title: string, intro: string | undefined, stops: (TourStop & { src: string })[]): string {
+  const stopSections = stops.map((stop, index) => {
+    const details = [
+      stop.lat !== undefined && stop.lng !== undefined ? `${stop.lat.toFixed(6)}, ${stop.lng.toFixed(6)}` : undefined,
+      stop.heading !== undefined ? `heading ${stop.heading}°` : undefined,
+      stop.pano_date ? `captured ${escapeXml(stop.pano_date)}` : undefined,
+    ].filter(Boolean).join(' · ');
+    return `    <section class="stop" id="stop-${index + 1}" data-index="${index}"${index === 0 ? '' : ' hidden'}>
+      <h2>${index + 1}. ${escapeXml(stop.title)}</h2>
+      <img src="${escapeXml(stop.src)}" alt="${escapeXml(stop.title)}">
+      ${details ? `<p class="location">${details}</p>` : ''}
+      ${stop.description ? `<p class="description">${escapeXml(stop.description)}</p>` : ''}
+    </section>`;
+  }).join('\n');
+
+  const locationItems = stops.map((stop, index) => {
+    const mapLink = stop.lat !== undefined && stop.lng !== undefined
+      ? ` <a href="https://www.google.com/maps/@?api=1&amp;map_action=pano&amp;viewpoint=${stop.lat},${stop.lng}${stop.heading !== undefined ? `&amp;heading=${stop.heading}` : ''}" target="_blank" rel="noopener">map</a>`
+      : '';
+    return `      <li><a href="#stop-${index + 1}" data-goto="${index}">${escapeXml(stop.title)}</a>${mapLink}</li>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${escapeXml(title)}</title>
+    <style>
+        body {
+            font-family: Arial, sans-serif;
+            line-height: 1.6;
+            max-width: 800px;
+            margin: 0 auto;
+            padding: 20px;
+            color: #333;
+        }
+        img {
+            max-width: 100%;
+            height: auto;
+            border-radius: 5px;
+            margin: 20px 0;
+        }
+        h1, h2, h3 {
+            color: #2c3e50;
+        }
+        .location {
+            font-weight: bold;
+            margin-bottom: 5px;
+        }
+        .description {
+            margin-bottom: 30px;
+        }
+        .controls {
+            display: flex;
+            align-items: center;
+            justify-content: space-between;
+            margin: 10px 0;
+        }
+        .controls button {
+            padding: 8px 16px;
+            font-size: 1em;
+            cursor: pointer;
+        }
+        .stops-list a.current {
+            font-weight: bold;
+        }
+    </style>
+</head>
+<body>
+    <h1>${escapeXml(title)}</h1>
+    ${intro ? `<p class="intro">${escapeXml(intro)}</p>` : ''}
+    <nav class="controls">
+      <button type="button" id="prev">&larr; Previous</button>
+      <span id="position">1 / ${stops.length}</span>
+      <button type="button" id="next">Next &rarr;</button>
+    </nav>
+${stopSections}
+    <h2>Stops</h2>
+    <ol class="stops-list">
+${locationItems}
+    </ol>
+    <script>
+      (function () {
+        var stops = document.querySelectorAll('.stop');
+        var links = document.querySelectorAll('[data-goto]');
+        var current = 0;
+        function show(index) {
+          current = (index + stops.length) % stops.length;
+          stops.forEach(function (stop, i) { stop.hidden = i !== current; });
+          links.forEach(function (link, i) { link.classList.toggle('current', i === current); });
+          document.getElementById('position').textContent = (current + 1) + ' / ' + stops.length;
+        }
+        document.getElementById('prev').addEventListener('click', function () { show(current - 1); });
+        document.getElementById('next').addEventListener('click', function () { show(current + 1); });
+        links.forEach(function (link) {
+          link.addEventListener('click', function (event) {
+            event.preventDefault();
+            show(Number(link.getAttribute('data-goto')));
+          });
+        });
+        document.addEventListener('keydown', function (event) {
+          if (event.key === 'ArrowLeft') show(current - 1);
+          if (event.key === 'ArrowRight') show(current + 1);
+        });
+        show(0);
+      })();
+    </script>
+</body>
+</html>`;
+}
+
+// Collections are single-level folders inside the output directory
+const COLLECTION_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9 _.-]{0,63}$/;
+
+function validateCollectionName(collection: string): string {
+  if (!COLLECTION_NAME_PATTERN.test(collection) || collection.includes('..')) {
+    throw new Error(`Invalid collection name '${collection}'. Use letters, digits, spaces, '.', '_' or '-'`);
+  }
+  return collection;
+}
+
+// Utility function to reject names that are not a single plain file name
+function validatePlainFilename(filename: string): string {
+  if (filename !== basename(filename) || filename.includes('/') || filename.includes('\\') ||
+      filename === '.' || filename === '..' || filename.startsWith('.')) {
+    throw new Error(`Invalid filename '${filename}'. Use a plain file name without directories`);
+  }
+  return filename;
+}
+
+// Resolve a path inside a root directory, rejecting absolute paths and escapes
+function resolveInside(root: string, ...segments: string[]): string {
+  if (segments.some(segment => isAbsolute(segment))) {
+    throw new Error(`Absolute paths are not allowed: ${segments.join('/')}`);
+  }
+  const base = resolve(root);
+  const target = resolve(base, ...segments);
+  if (target !== base && !target.startsWith(base + sep)) {
+    throw new Error(`Path escapes the output directory: ${segments.join('/')}`);
+  }
+  return target;
+}
+
+// Path of an image relative to the output root, used as its catalog key
+function imageKey(collection: string | undefined, filename: string): string {
+  return collection ? `${collection}/${filename}` : filename;
+}
+
+type ConflictMode = 'error' | 'overwrite' | 'auto_suffix';
+
+// Paths claimed by in-flight writes, so concurrent auto-suffixed saves pick distinct names
+const reservedOutputPaths = new Set<string>();
+
+interface OutputTarget {
+  filename: string;
+  path: string;
+  release: () => void;
+}
+
+// Resolve where to write a file inside a directory, applying the on_conflict mode
+async function resolveOutputTarget(dir: string, filename: string, onConflict: ConflictMode): Promise<OutputTarget> {
+  validatePlainFilename(filename);
+  const dot = filename.lastIndexOf('.');
+  const stem = dot > 0 ? filename.slice(0, dot) : filename;
+  const extension = dot > 0 ? filename.slice(dot) : '';
+
+  for (let attempt = 1; attempt <= 1000; attempt++) {
+    const candidate = attempt === 1 ? filename : `${stem}_${attempt}${extension}`;
+    const path = resolveInside(dir, candidate);
+    const exists = await fs.access(path).then(() => true, () => false);
+    // Checked after the await so the lookup and the reservation happen without yielding
+    const reserved = reservedOutputPaths.has(path);
+    if ((reserved || exists) && onConflict === 'auto_suffix') {
+      continue;
+    }
+    if (reserved) {
+      throw new Error(`File ${candidate} is already being written`);
+    }
+    if (exists && onConflict === 'error') {
+      throw new Error(`File ${candidate} already exists. Use on_conflict 'overwrite' or 'auto_suffix' to save anyway`);
+    }
+    reservedOutputPaths.add(path);
+    return { filename: candidate, path, release: () => reservedOutputPaths.delete(path) };
+  }
+  throw new Error(`No free filename found for ${filename}`);
+}
+
+// Derive a readable filename from request details, e.g. "empire_state_building_h90.jpg"
+function generateFilename(subject: string, suffix: string, extension: string): string {
+  const slug = subject
+    .normalize('NFKD')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, 60);
+  return `${slug || 'image'}${suffix}.${extension}`;
+}
+
+// Directory for a collection (or the output root), created on demand
+async function collectionDirectory(outputDir: string, collection: string | undefined): Promise<string> {
+  if (!collection) {
+    return outputDir;
+  }
+  const dir = resolveInside(outputDir, validateCollectionName(collection));
+  await fs.mkdir(dir, { recursive: true });
+  return dir;
+}
+
+// Names of the collections that currently exist in the output directory
+async function listCollections(outputDir: string): Promise<string[]> {
+  const entries = await fs.readdir(outputDir, { withFileTypes: true });
+  return entries
+    .filter(entry => entry.isDirectory() && COLLECTION_NAME_PATTERN.test(entry.name))
+    .map(entry => entry.name)
+    .sort();
+}
+
+// Catalog of saved image records, stored as a hidden index file in the output directory
+const CATALOG_FILENAME = '.catalog.json';
+let catalogWrite: Promise<unknown> = Promise.resolve();
+
+async function readCatalog(outputDir: string): Promise<Record<string, ImageRecord>> {
+  try {
+    return JSON.parse(await fs.readFile(join(outputDir, CATALOG_FILENAME), 'utf-8')) as Record<string, ImageRecord>;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      log('warn', 'Image catalog unreadable, treating it as empty', { error: error instanceof Error ? error.message : error });
+    }
+    return {};
+  }
+}
+
+// Apply a change to the catalog; updates are chained so concurrent saves never lose records
+function updateCatalog(outputDir: string, mutate: (catalog: Record<string, ImageRecord>) => void): Promise<void> {
+  const update = catalogWrite.then(async () => {
+    const catalog = await readCatalog(outputDir);
+    mutate(catalog);
+    const tempPath = join(outputDir, `${CATALOG_FILENAME}.${process.pid}.tmp`);
+    await fs.writeFile(tempPath, JSON.stringify(catalog, null, 2), 'utf-8');
+    await fs.rename(tempPath, join(outputDir, CATALOG_FILENAME));
+  });
+  catalogWrite = update.catch(() => undefined);
+  return update;
+}
+
+// Record where a saved image came from; a failed catalog write never fails the save
+async function recordImage(outputDir: string, record: ImageRecord): Promise<void> {
+  try {
+    await updateCatalog(outputDir, catalog => {
+      catalog[record.filename] = record;
+    });
+  } catch (error) {
+    log('warn', 'Failed to record image in catalog', { filename: record.filename, error: error instanceof Error ? error.message : error });
+  }
+}
+
+// Copy provenance fields from a metadata response into an image record
+function metadataFields(metadata: StreetViewMetadata | undefined): Pick<ImageRecord, 'pano_id' | 'date' | 'copyright' | 'location'> {
+  if (!metadata || metadata.status !== 'OK') {
+    return {};
+  }
+  return {
+    pano_id: metadata.pano_id,
+    date: metadata.date,
+    copyright: metadata.copyright,
+    location: metadata.location,
+  };
+}
+
+// Error for a pre-flight metadata lookup that found no panorama.
+// NOT_FOUND means the address or panorama ID itself could not be resolved; ZERO_RESULTS means no imagery nearby
+function noPanoramaError(status: string, target: LocationTarget, radius: number): StreetViewError {
+  const reason = status === 'NOT_FOUND'
+    ? target.pano_id ? `Panorama ${target.pano_id} was not found` : `Location ${target.location || target.lat_lng} could not be found`
+    : `No Street View imagery found for ${target.location || target.lat_lng || target.pano_id}${target.pano_id ? '' : ` within ${radius} m`}`;
+  return errorFromApiStatus(status, `${reason} (${status})`);
+}
+
+// Whether a heading falls within a range; ranges with min > max wrap through north
+function headingInRange(heading: number, min: number, max: number): boolean {
+  return min <= max ? heading >= min && heading <= max : heading >= min || heading <= max;
+}
+
+type GetStreetViewArgs = z.infer<typeof GetStreetViewSchema>;
+
+// Result of fetching and saving a single Street View image
+interface SavedStreetView {
+  filename: string;
+  path: string;
+  buffer: Buffer;
+  width?: number;
+  height?: number;
+  format: ImageFormat;
+  pano_id?: string;
+  address?: string;
+  look_at?: Record<string, any>;
+}
+
+// Fetch a Street View image and save it to the output directory
+async function saveStreetViewImage(args: GetStreetViewArgs): Promise<SavedStreetView> {
+  // Pre-flight metadata check, so missing imagery is reported distinctly and no placeholder is saved
+  const metadata = await makeMetadataRequest(
+    applyLocationParams({ radius: args.radius, source: args.source }, { location: args.location, lat_lng: args.lat_lng, pano_id: args.pano_id })
+  );
+  if (metadata.status !== 'OK') {
+    throw noPanoramaError(metadata.status, args, args.radius);
+  }
+
+  // Aiming at a point of interest replaces the requested heading and pitch
+  let lookAt: Record<string, any> | undefined;
+  if (args.look_at) {
+    const { size, fov, look_at } = args;
+    if (!metadata.location) {
+      throw new Error("Cannot aim look_at: the panorama has no location");
+    }
+    const camera: LatLng = [metadata.location.lat, metadata.location.lng];
+    const aim = computeLookAt(camera, parseLatLng(look_at.lat_lng), { ...look_at, fov, size });
+    args = { ...args, heading: aim.heading, pitch: aim.pitch, fov: aim.fov };
+    lookAt = {
+      target: look_at.lat_lng,
+      camera: metadata.location,
+      pano_id: metadata.pano_id,
+      distance_meters: Math.round(aim.distance),
+      heading: aim.heading,
+      pitch: aim.pitch,
+      fov: aim.fov,
+    };
+  }
+  const { location, lat_lng, pano_id, heading, collection } = args;
+
+  // Explicit format wins, then the filename extension, then JPEG
+  const format: ImageFormat = args.format ?? (args.filename ? formatFromFilename(args.filename) : undefined) ?? 'jpeg';
+  if (args.filename && args.format && formatFromFilename(args.filename) !== args.format) {
+    throw new Error(`Filename ${args.filename} does not have a ${args.format} extension (${IMAGE_FORMAT_EXTENSIONS[args.format].map(ext => `.${ext}`).join(' or ')})`);
+  }
+
+  // Ensure output directory exists with fallback handling
+  const actualOutputDir = await ensureDirectoryExists(outputDirectory());
+  const targetDir = await collectionDirectory(actualOutputDir, collection);
+
+  // Generated names never fail on an existing file; explicit names do unless told otherwise
+  const requestedFilename = args.filename ??
+    generateFilename(location || lat_lng || pano_id || 'streetview', `_h${heading}`, IMAGE_FORMAT_EXTENSIONS[format][0]);
+  const target = await resolveOutputTarget(targetDir, requestedFilename, args.on_conflict ?? (args.filename ? 'error' : 'auto_suffix'));
+  try {
+    return { ...await writeStreetViewImage(args, metadata, format, actualOutputDir, target), look_at: lookAt };
+  } finally {
+    target.release();
+  }
+}
+
+// Fetch a view as a scale x scale grid of narrower tiles and stitch them, so the larger image has real detail
+async function fetchScaledView(
+  target: LocationTarget,
+  view: { size: string; heading: number; pitch: number; fov: number; radius: number; source: string },
+  scale: number
+): Promise<Buffer> {
+  const [width, height] = parseSize(view.size);
+  // Tile centers are spread evenly over the image plane of the full view
+  const halfWidth = Math.tan(view.fov * Math.PI / 360);
+  const halfHeight = halfWidth * height / width;
+  const tileFov = 2 * Math.atan(halfWidth / scale) * 180 / Math.PI;
+  const composites: sharp.OverlayOptions[] = [];
+
+  for (let row = 0; row < scale; row++) {
+    for (let column = 0; column < scale; column++) {
+      const x = halfWidth * ((2 * column + 1) / scale - 1);
+      const y = halfHeight * (1 - (2 * row + 1) / scale);
+      const tileHeading = (view.heading + Math.atan(x) * 180 / Math.PI + 360) % 360;
+      const tilePitch = Math.max(-90, Math.min(90, view.pitch + Math.atan(y / Math.sqrt(1 + x * x)) * 180 / Math.PI));
+      const tile = await makeApiRequest(buildStreetViewParams(target, {
+        ...view,
+        heading: Math.round(tileHeading * 100) / 100,
+        pitch: Math.round(tilePitch * 100) / 100,
+        fov: Math.round(tileFov * 100) / 100,
+      }));
+      const input = await sharp(tile).resize(width, height, { fit: 'fill' }).toBuffer();
+      composites.push({ input, left: column * width, top: row * height });
+    }
+  }
+
+  return sharp({
+    create: { width: width * scale, height: height * scale, channels: 3, background: { r: 0, g: 0, b: 0 } },
+  })
+    .composite(composites)
+    .png()
+    .toBuffer();
+}
+
+// Provenance lines stamped onto annotated images
+function annotationLines(args: GetStreetViewArgs, panorama: StreetViewMetadata | undefined, address: string | undefined): string[] {
+  const known = panorama?.status === 'OK' ? panorama : undefined;
+  const coordinates = known?.location
+    ? `${known.location.lat.toFixed(6)}, ${known.location.lng.toFixed(6)}`
+    : args.lat_lng;
+  return [
+    args.location || address || (coordinates ? undefined : args.pano_id),
+    [coordinates, `heading ${args.heading}° ${compassPoint(args.heading)}`].filter(Boolean).join('  ·  '),
+    [known?.date && `Captured ${known.date}`, known?.copyright].filter(Boolean).join('  ·  '),
+  ].filter((line): line is string => Boolean(line));
+}
+
+async function writeStreetViewImage(
+  args: GetStreetViewArgs,
+  panorama: StreetViewMetadata,
+  format: ImageFormat,
+  actualOutputDir: string,
+  target: OutputTarget
+): Promise<SavedStreetView> {
+  const { location, lat_lng, pano_id, size, heading, pitch, fov, radius, source, collection, crop } = args;
+  const quality = args.quality ?? JPEG_QUALITY;
+  const scale = args.scale ?? 1;
+  const filePath = target.path;
+  const view = { size, heading, pitch, fov, radius, source };
+  // look_at angles are computed from the pre-flight panorama, so fetch exactly that one
+  const fetchTarget: LocationTarget = args.look_at && panorama.pano_id ? { pano_id: panorama.pano_id } : { location, lat_lng, pano_id };
+
+  // Fetch the image, stitching tiles when a larger scale is requested
+  const imageBuffer = scale > 1
+    ? await fetchScaledView(fetchTarget, view, scale)
+    : await makeApiRequest(buildStreetViewParams(fetchTarget, view));
+
+  // The pre-flight metadata tells where and when the image came from, for the overlay and the catalog
+  const snapped = panorama.location
+    ? [panorama.location.lat, panorama.location.lng] as LatLng
+    : lat_lng ? parseLatLng(lat_lng) : undefined;
+  // Reverse geocoding is billed separately, so it only runs when the caller asks for the address
+  const address = location || !(args.include_address || args.annotate) ? undefined : await lookupAddress(snapped);
+
+  // Crop first so the annotation fits the final frame
+  let image = sharp(imageBuffer);
+  if (crop) {
+    const { width = 0, height = 0 } = await image.metadata();
+    if (crop.left + crop.width > width || crop.top + crop.height > height) {
+      throw new Error(`Crop region ${crop.width}x${crop.height}+${crop.left}+${crop.top} exceeds the ${width}x${height} image`);
+    }
+    image = sharp(await image.extract(crop).toBuffer());
+  }
+  if (args.annotate) {
+    const { width = 0, height = 0 } = await image.metadata();
+    image = image.composite([{ input: renderAnnotationOverlay(annotationLines(args, panorama, address), heading, width, height), left: 0, top: 0 }]);
+  }
+
+  // Process and save the image using Sharp
+  await encodeImage(image, format, quality).toFile(filePath);
+  noteResourceChange(filePath);
+
+  // Get image metadata and the saved bytes for the response
+  const metadata = await sharp(filePath).metadata();
+  const savedImageBuffer = await fs.readFile(filePath);
+
+  await recordImage(actualOutputDir, {
+    filename: imageKey(collection, target.filename),
+    saved_at: new Date().toISOString(),
+    tool: 'get_street_view',
+    parameters: {
+      location, lat_lng, pano_id, size, heading, pitch, fov, radius: pano_id ? undefined : radius, source,
+      format, quality: format === 'png' ? undefined : quality, scale: scale > 1 ? scale : undefined, crop, annotate: args.annotate || undefined,
+      look_at: args.look_at,
+    },
+    ...metadataFields(panorama),
+    address,
+  });
+
+  return {
+    filename: target.filename,
+    path: filePath,
+    buffer: savedImageBuffer,
+    width: metadata.width,
+    height: metadata.height,
+    format,
+    pano_id: panorama.pano_id,
+    address,
+  };
+}
+
+// Tool handlers
+async function listTools() {
+  return {
+    tools: [
+      {
+        name: "get_street_view",
+        description: "Fetch a Street View image based on location, coordinates, or panorama ID and save to file.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            filename: {
+              type: "string",
+              description: "Filename to save the image. If omitted, a name is generated from the location and heading",
+            },
+            location: {
+              type: "string",
+              description: "The address to get Street View image for (e.g., 'Empire State Building, NY')",
+            },
+            lat_lng: {
+              type: "string",
+              description: "Comma-separated latitude and longitude (e.g., '40.748817,-73.985428')",
+            },
+            pano_id: {
+              type: "string",
+              description: "Specific panorama ID to fetch",
+            },
+            size: {
+              type: "string",
+              description: "Image dimensions as 'widthxheight' (e.g., '600x400')",
+              default: SETTINGS.default_size
+            },
+            heading: {
+              type: "number",
+              description: "Camera heading in degrees (0-360)",
+              default: 0
+            },
+            pitch: {
+              type: "number",
+              description: "Camera pitch in degrees (-90 to 90)",
+              default: 0
+            },
+            fov: {
+              type: "number",
+              description: "Field of view in degrees (zoom level, 10-120)",
+              default: SETTINGS.default_fov
+            },
+            radius: {
+              type: "number",
+              description: "Search radius in meters when using location or coordinates",
+              default: 50
+            },
+            source: {
+              type: "string",
+              enum: ["default", "outdoor"],
+              description: "Limit Street View searches to selected sources",
+              default: "default"
+            },
+            collection: {
+              type: "string",
+              description: "Optional collection (subfolder of the output directory) to save the image in",
+            },
+            on_conflict: {
+              type: "string",
+              enum: ["error", "overwrite", "auto_suffix"],
+              description: "What to do when the file already exists: fail, replace it, or save as name_2.jpg, name_3.jpg, ... (default: 'error', or 'auto_suffix' for generated names)",
+            },
+            format: {
+              type: "string",
+              enum: ["jpeg", "png", "webp", "avif"],
+              description: "Output format (default: from the filename extension, otherwise jpeg)",
+            },
+            quality: {
+              type: "number",
+              description: `Encoding quality for jpeg, webp and avif (1-100, default: ${JPEG_QUALITY})`,
+            },
+            scale: {
+              type: "number",
+              description: "Upsampling factor 1-4. Values above 1 fetch a scale x scale grid of narrower tiles and stitch them into one image of scale times the size",
+            },
+            crop: {
+              type: "object",
+              properties: {
+                left: { type: "number" },
+                top: { type: "number" },
+                width: { type: "number" },
+                height: { type: "number" },
+              },
+              required: ["left", "top", "width", "height"],
+              description: "Region to keep in pixels of the (scaled) image",
+            },
+            annotate: {
+              type: "boolean",
+              description: "Stamp the address, coordinates, heading compass, capture date and copyright onto the image",
+            },
+            include_address: {
+              type: "boolean",
+              description: "Reverse geocode the panorama location and return it as address (one geocoding request; implied by annotate)",
+              default: false
+            },
+            look_at: {
+              type: "object",
+              properties: {
+                lat_lng: {
+                  type: "string",
+                  description: "Target point as 'lat,lng'",
+                },
+                height: {
+                  type: "number",
+                  description: "Approximate height of the target in meters; the camera aims at its middle",
+                },
+                width: {
+                  type: "number",
+                  description: "Approximate width of the target in meters, used to choose the fov",
+                },
+              },
+              required: ["lat_lng"],
+              description: "Point the camera at a target from the panorama's actual position. Overrides heading and pitch, and fov when height or width is given",
+            },
+          },
+        },
+      },
+      {
+        name: "get_metadata",
+        description: "Fetch metadata about a Street View panorama.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            location: {
+              type: "string",
+              description: "The address to check for Street View imagery",
+            },
+            lat_lng: {
+              type: "string",
+              description: "Comma-separated latitude and longitude (e.g., '40.748817,-73.985428')",
+            },
+            pano_id: {
+              type: "string",
+              description: "Specific panorama ID to fetch metadata for",
+            },
+            radius: {
+              type: "number",
+              description: "Search radius in meters when using location or coordinates",
+              default: 50
+            },
+            source: {
+              type: "string",
+              enum: ["default", "outdoor"],
+              description: "Limit Street View searches to selected sources",
+              default: "default"
+            },
+            include_address: {
+              type: "boolean",
+              description: "Reverse geocode the panorama location and return it as address (one geocoding request)",
+              default: false
+            },
+          },
+          required: [],
+        },
+      },
+      {
+        name: "create_html_page",
+        description: "Create an HTML page that displays multiple Street View images as a virtual tour.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            filename: {
+              type: "string",
+              description: "Name of the HTML file to create (without directory path). If omitted, a name is generated from the title",
+            },
+            title: {
+              type: "string",
+              description: "Title for the HTML page",
+              default: "Street View Tour"
+            },
+            html_elements: {
+              type: "array",
+              items: { type: "string" },
+              description: "List of content HTML elements (just the body content, no need for HTML structure). When including Street View images, use relative path to the saved image file",
+            },
+            mode: {
+              type: "string",
+              enum: ["strict", "permissive"],
+              description: "Sanitization mode. strict keeps a small allowlist of tags and only local images that exist in the output tree; permissive also allows inline styles, media tags and remote or data-URI images. Scripts, iframes and event handlers are always removed",
+              default: "strict"
+            },
+            export: {
+              type: "string",
+              enum: ["none", "inline", "zip"],
+              description: "Portable export: inline embeds every local image as an optimized data URI in the page itself; zip also writes a .zip bundle of the page and optimized images next to it",
+              default: "none"
+            },
+            export_width: {
+              type: "number",
+              description: "Maximum width in pixels of exported images (100-4096); smaller images are not enlarged",
+              default: 1024
+            },
+            export_quality: {
+              type: "number",
+              description: "JPEG quality of exported images (1-100)",
+              default: 80
+            },
+            on_conflict: {
+              type: "string",
+              enum: ["error", "overwrite", "auto_suffix"],
+              description: "What to do when the page already exists: fail, replace it, or save as name_2.html, ... (default: 'error', or 'auto_suffix' for generated names)",
+            },
+          },
+          required: ["html_elements"],
+        },
+      },
+      {
+        name: "list_saved_images",
+        description: "List saved Street View images in the output directory, most recent first. Each image includes its recorded provenance (request parameters, pano_id, capture date, copyright, snapped location) when known. Supports filtering and pagination.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            near: {
+              type: "string",
+              description: "Only images whose snapped location is near this 'lat,lng'",
+            },
+            within: {
+              type: "number",
+              description: "Distance in meters for the near filter",
+              default: 100
+            },
+            date_from: {
+              type: "string",
+              description: "Earliest capture date, as 'YYYY' or 'YYYY-MM'",
+            },
+            date_to: {
+              type: "string",
+              description: "Latest capture date, as 'YYYY' or 'YYYY-MM'",
+            },
+            pano_id: {
+              type: "string",
+              description: "Only images of this panorama",
+            },
+            heading_min: {
+              type: "number",
+              description: "Minimum camera heading (0-360). A minimum above the maximum selects a range through north",
+            },
+            heading_max: {
+              type: "number",
+              description: "Maximum camera heading (0-360)",
+            },
+            text: {
+              type: "string",
+              description: "Case-insensitive match on the filename, requested location or pano_id",
+            },
+            collection: {
+              type: "string",
+              description: "Collection to list. Omit for images in the output root, or use '*' for the root and every collection",
+            },
+            page: {
+              type: "number",
+              description: "Page number, starting at 1",
+              default: 1
+            },
+            page_size: {
+              type: "number",
+              description: "Images per page (1-500)",
+              default: 50
+            },
+          },
+          required: [],
+        },
+      },
+      {
+        name: "get_panorama",
+        description: "Fetch several headings (and optionally pitch rows) for one location and stitch them into a single 360° panorama image saved to file.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            filename: {
+              type: "string",
+              description: "Required filename to save the panorama (must not already exist in output directory)",
+            },
+            location: {
+              type: "string",
+              description: "The address to build the panorama for (e.g., 'Empire State Building, NY')",
+            },
+            lat_lng: {
+              type: "string",
+              description: "Comma-separated latitude and longitude (e.g., '40.748817,-73.985428')",
+            },
+            pano_id: {
+              type: "string",
+              description: "Specific panorama ID to stitch",
+            },
+            tile_size: {
+              type: "string",
+              description: "Dimensions of each fetched tile as 'widthxheight' (e.g., '600x400')",
+              default: SETTINGS.default_size
+            },
+            headings: {
+              type: "number",
+              description: "Number of evenly spaced headings around the full circle (3-24). The field of view of each tile is 360 / headings",
+              default: 8
+            },
+            pitches: {
+              type: "array",
+              items: { type: "number" },
+              description: "Pitch rows to fetch in degrees (-90 to 90)",
+              default: [0]
+            },
+            projection: {
+              type: "string",
+              enum: ["cylindrical", "equirectangular"],
+              description: "Output layout: cylindrical stacks pitch rows edge to edge, equirectangular places them on a 2:1 canvas by pitch",
+              default: "cylindrical"
+            },
+            radius: {
+              type: "number",
+              description: "Search radius in meters when using location or coordinates",
+              default: 50
+            },
+            source: {
+              type: "string",
+              enum: ["default", "outdoor"],
+              description: "Limit Street View searches to selected sources",
+              default: "default"
+            },
+          },
+          required: ["filename"],
+        },
+      },
+      {
+        name: "create_route_tour",
+        description: "Create a drive-through image sequence along a route. Samples points along the path, snaps each to a real panorama, drops duplicates and fetches each frame facing the next point. Writes the frames and a manifest JSON to the output directory.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            name: {
+              type: "string",
+              description: "Base name for the frame files and manifest (e.g., 'broadway_drive' produces 'broadway_drive_001.jpg' and 'broadway_drive_manifest.json')",
+            },
+            start: {
+              type: "string",
+              description: "Route start as an address or 'lat,lng'. The path between start and end is a straight line; use polyline or waypoints to follow roads",
+            },
+            end: {
+              type: "string",
+              description: "Route end as an address or 'lat,lng'",
+            },
+            polyline: {
+              type: "string",
+              description: "Google encoded polyline describing the route",
+            },
+            waypoints: {
+              type: "array",
+              items: { type: "string" },
+              description: "Ordered list of 'lat,lng' points describing the route",
+            },
+            interval: {
+              type: "number",
+              description: "Distance in meters between sampled points",
+              default: 25
+            },
+            max_frames: {
+              type: "number",
+              description: "Maximum number of frames to fetch (1-200)",
+              default: 50
+            },
+            size: {
+              type: "string",
+              description: "Image dimensions as 'widthxheight' (e.g., '600x400')",
+              default: SETTINGS.default_size
+            },
+            pitch: {
+              type: "number",
+              description: "Camera pitch in degrees (-90 to 90)",
+              default: 0
+            },
+            fov: {
+              type: "number",
+              description: "Field of view in degrees (zoom level, 10-120)",
+              default: SETTINGS.default_fov
+            },
+            radius: {
+              type: "number",
+              description: "Search radius in meters used to snap each sampled point to a panorama",
+              default: 25
+            },
+            source: {
+              type: "string",
+              enum: ["default", "outdoor"],
+              description: "Limit Street View searches to selected sources",
+              default: "default"
+            },
+          },
+          required: ["name"],
+        },
+      },
+      {
+        name: "export_animation",
+        description: "Combine saved images from the output directory into an animated GIF or WebP slideshow, with optional resize and captions. Returns the animation inline and saves it to file.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            filename: {
+              type: "string",
+              description: "Name of the animation file to create. The extension is set from the format",
+            },
+            frames: {
+              type: "array",
+              items: { type: "string" },
+              description: "Ordered list of image filenames from the output directory",
+            },
+            pattern: {
+              type: "string",
+              description: "Filename glob using '*' and '?' (e.g., 'drive_*.jpg'). Matching files are used in name order",
+            },
+            format: {
+              type: "string",
+              enum: ["gif", "webp"],
+              description: "Animation format",
+              default: "gif"
+            },
+            delay: {
+              oneOf: [
+                { type: "number" },
+                { type: "array", items: { type: "number" } },
+              ],
+              description: "Delay per frame in milliseconds, either one value for all frames or one value per frame",
+              default: 500
+            },
+            width: {
+              type: "number",
+              description: "Output width in pixels (defaults to the first frame's width)",
+            },
+            height: {
+              type: "number",
+              description: "Output height in pixels (defaults to the first frame's height)",
+            },
+            captions: {
+              type: "array",
+              items: { type: "string" },
+              description: "Caption overlaid on each frame, in frame order. A single caption is applied to every frame",
+            },
+            loop: {
+              type: "number",
+              description: "Number of animation iterations, 0 for infinite",
+              default: 0
+            },
+            quality: {
+              type: "number",
+              description: "WebP quality (1-100)",
+              default: 80
+            },
+          },
+          required: ["filename"],
+        },
+      },
+      {
+        name: "cache_status",
+        description: "Report the state of the on-disk cache of Street View image and metadata responses.",
+        inputSchema: {
+          type: "object",
+          properties: {},
+          required: [],
+        },
+      },
+      {
+        name: "clear_cache",
+        description: "Remove entries from the on-disk Street View response cache.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            kind: {
+              type: "string",
+              enum: ["all", "image", "metadata", "geocode"],
+              description: "Which cached responses to remove",
+              default: "all"
+            },
+            expired_only: {
+              type: "boolean",
+              description: "Only remove entries older than the cache TTL",
+              default: false
+            },
+          },
+          required: [],
+        },
+      },
+      {
+        name: "batch_get_street_view",
+        description: "Fetch and save many Street View images in one call. Each item takes the same arguments as get_street_view. Items run with bounded concurrency and retries, and failures are reported per item instead of aborting the batch.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            requests: {
+              type: "array",
+              items: { type: "object" },
+              description: "List of get_street_view argument objects (each needs exactly one of location, lat_lng or pano_id; filename, collection and on_conflict work as in get_street_view). Up to 100 items",
+            },
+            concurrency: {
+              type: "number",
+              description: "Maximum number of requests in flight at once (1-10)",
+              default: 4
+            },
+            retries: {
+              type: "number",
+              description: "Retries per API request for network errors, rate limiting and server errors (0-5)",
+              default: 2
+            },
+            retry_delay: {
+              type: "number",
+              description: "Base delay in milliseconds before the first retry; doubles on each further attempt",
+              default: 500
+            },
+          },
+          required: ["requests"],
+        },
+      },
+      {
+        name: "probe_coverage",
+        description: "Find where Street View imagery exists in an area. Checks metadata on a grid of points, de-duplicates by panorama ID and returns a GeoJSON FeatureCollection of available panoramas with date, copyright and snapped location. No images are fetched.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            bbox: {
+              type: "string",
+              description: "Bounding box as 'south,west,north,east' (e.g., '40.7480,-73.9870,40.7500,-73.9840')",
+            },
+            center: {
+              type: "string",
+              description: "Center of a circular area as 'lat,lng' (use with radius)",
+            },
+            radius: {
+              type: "number",
+              description: "Radius of the circular area in meters",
+            },
+            spacing: {
+              type: "number",
+              description: "Distance between grid points in meters (minimum 5)",
+              default: 50
+            },
+            search_radius: {
+              type: "number",
+              description: "Metadata search radius around each grid point in meters (defaults to half the spacing)",
+            },
+            max_points: {
+              type: "number",
+              description: "Maximum number of grid points to probe (1-2500). The call fails instead of truncating when the grid is larger",
+              default: 400
+            },
+            concurrency: {
+              type: "number",
+              description: "Maximum number of metadata requests in flight at once (1-10)",
+              default: 4
+            },
+            include_gaps: {
+              type: "boolean",
+              description: "Also include grid points without imagery as features with available: false",
+              default: false
+            },
+            source: {
+              type: "string",
+              enum: ["default", "outdoor"],
+              description: "Limit Street View searches to selected sources",
+              default: "default"
+            },
+            filename: {
+              type: "string",
+              description: "Optional filename to save the GeoJSON in the output directory",
+            },
+          },
+          required: [],
+        },
+      },
+      {
+        name: "get_pano_history",
+        description: "Build a capture-date timeline of the distinct panoramas around a location, for before/after comparisons. Probes metadata at the point and on rings of nearby offsets, groups panoramas by capture month and year, and can fetch a same-heading image for each date.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            location: {
+              type: "string",
+              description: "The address to build a timeline for",
+            },
+            lat_lng: {
+              type: "string",
+              description: "Comma-separated latitude and longitude (e.g., '40.748817,-73.985428')",
+            },
+            search_radius: {
+              type: "number",
+              description: "Radius in meters of the outermost ring of probe points (5-200)",
+              default: 30
+            },
+            rings: {
+              type: "number",
+              description: "Number of probe rings between the center and search_radius (1-5)",
+              default: 2
+            },
+            points_per_ring: {
+              type: "number",
+              description: "Number of probe points on each ring (4-16)",
+              default: 8
+            },
+            source: {
+              type: "string",
+              enum: ["default", "outdoor"],
+              description: "Limit Street View searches to selected sources",
+              default: "default"
+            },
+            fetch_images: {
+              type: "boolean",
+              description: "Fetch one image per capture date, using the panorama closest to the location",
+              default: false
+            },
+            filename_prefix: {
+              type: "string",
+              description: "Prefix for fetched images, saved as '<prefix>_<YYYY-MM>.jpg' (required with fetch_images)",
+            },
+            heading: {
+              type: "number",
+              description: "Camera heading in degrees (0-360) used for every fetched image",
+              default: 0
+            },
+            pitch: {
+              type: "number",
+              description: "Camera pitch in degrees (-90 to 90)",
+              default: 0
+            },
+            fov: {
+              type: "number",
+              description: "Field of view in degrees (zoom level, 10-120)",
+              default: SETTINGS.default_fov
+            },
+            size: {
+              type: "string",
+              description: "Image dimensions as 'widthxheight' (e.g., '600x400')",
+              default: SETTINGS.default_size
+            },
+          },
+          required: [],
+        },
+      },
+      {
+        name: "compare_images",
+        description: "Compare two or more saved images from the output directory as a side-by-side strip, a grid, a swipe-ready split pair, or a pixel-difference heatmap with a change percentage. Returns the composite inline and saves it to file.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            filename: {
+              type: "string",
+              description: "Name of the composite image to create (must not already exist in output directory)",
+            },
+            images: {
+              type: "array",
+              items: { type: "string" },
+              description: "Filenames from the output directory, in display order",
+            },
+            mode: {
+              type: "string",
+              enum: ["side_by_side", "grid", "swipe", "diff"],
+              description: "side_by_side: one row; grid: rows and columns; swipe: left half of the first image joined to the right half of the second, with both aligned images also saved; diff: heatmap of changed pixels",
+              default: "side_by_side"
+            },
+            tile_width: {
+              type: "number",
+              description: "Width each image is resized to (defaults to the first image's width). Heights follow the first image's aspect ratio",
+            },
+            columns: {
+              type: "number",
+              description: "Columns for grid mode (defaults to a near-square layout)",
+            },
+            gap: {
+              type: "number",
+              description: "Pixels between tiles in side_by_side and grid modes",
+              default: 8
+            },
+            labels: {
+              type: "boolean",
+              description: "Overlay each tile with its filename (side_by_side and grid modes)",
+              default: true
+            },
+            threshold: {
+              type: "number",
+              description: "Per-channel difference (0-255) above which a pixel counts as changed in diff mode",
+              default: 30
+            },
+          },
+          required: ["filename", "images"],
+        },
+      },
+      {
+        name: "create_tour",
+        description: "Create a navigable HTML tour from structured stops instead of raw HTML. Each stop references a saved image by filename; images are copied next to the page (or linked) so paths always resolve. The page has previous/next controls, a stop index, captions and a location list.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            filename: {
+              type: "string",
+              description: "Name of the HTML file to create (without directory path)",
+            },
+            title: {
+              type: "string",
+              description: "Title for the tour",
+              default: "Street View Tour"
+            },
+            intro: {
+              type: "string",
+              description: "Optional introduction shown above the stops",
+            },
+            stops: {
+              type: "array",
+              description: "Ordered tour stops",
+              items: {
+                type: "object",
+                properties: {
+                  image: { type: "string", description: "Filename of a saved image in the output directory" },
+                  title: { type: "string", description: "Stop title" },
+                  description: { type: "string", description: "Caption text for the stop" },
+                  lat: { type: "number", description: "Latitude of the stop" },
+                  lng: { type: "number", description: "Longitude of the stop" },
+                  heading: { type: "number", description: "Camera heading in degrees" },
+                  pano_date: { type: "string", description: "Capture date of the panorama (e.g., '2023-05')" },
+                },
+                required: ["image", "title"],
+              },
+            },
+            image_mode: {
+              type: "string",
+              enum: ["copy", "link"],
+              description: "copy: copy images into an assets folder next to the page; link: reference them in the output directory by relative path",
+              default: "copy"
+            },
+            export: {
+              type: "string",
+              enum: ["none", "inline", "zip"],
+              description: "Portable export: inline embeds every local image as an optimized data URI in the page itself; zip also writes a .zip bundle of the page and optimized images next to it",
+              default: "none"
+            },
+            export_width: {
+              type: "number",
+              description: "Maximum width in pixels of exported images (100-4096); smaller images are not enlarged",
+              default: 1024
+            },
+            export_quality: {
+              type: "number",
+              description: "JPEG quality of exported images (1-100)",
+              default: 80
+            },
+          },
+          required: ["filename", "stops"],
+        },
+      },
+      {
+        name: "delete_image",
+        description: "Delete saved images from the output directory (or a collection) along with their catalog records.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            filenames: {
+              type: "array",
+              items: { type: "string" },
+              description: "Image filenames to delete",
+            },
+            collection: {
+              type: "string",
+              description: "Collection the images are in (omit for the output root)",
+            },
+          },
+          required: ["filenames"],
+        },
+      },
+      {
+        name: "rename_image",
+        description: "Rename a saved image in the output directory (or a collection), keeping its catalog record.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            filename: {
+              type: "string",
+              description: "Current image filename",
+            },
+            new_filename: {
+              type: "string",
+              description: "New image filename (must not already exist)",
+            },
+            collection: {
+              type: "string",
+              description: "Collection the image is in (omit for the output root)",
+            },
+          },
+          required: ["filename", "new_filename"],
+        },
+      },
+      {
+        name: "organize_images",
+        description: "Move saved images into a named collection (a subfolder of the output directory), or back to the output root. Catalog records move with the images.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            filenames: {
+              type: "array",
+              items: { type: "string" },
+              description: "Image filenames to move",
+            },
+            pattern: {
+              type: "string",
+              description: "Filename glob using '*' and '?' (e.g., 'drive_*.jpg') selecting the images to move",
+            },
+            from_collection: {
+              type: "string",
+              description: "Collection the images are in (omit for the output root)",
+            },
+            to_collection: {
+              type: "string",
+              description: "Destination collection, created if needed. Use an empty string for the output root",
+            },
+          },
+          required: ["to_collection"],
+        },
+      },
+      {
+        name: "geocode",
+        description: "Resolve an address or place name to coordinates and a formatted address. The results can be passed to the Street View tools as lat_lng.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            address: {
+              type: "string",
+              description: "Address or place name to look up",
+            },
+            limit: {
+              type: "number",
+              description: "Maximum number of results (1-10)",
+              default: 5
+            },
+          },
+          required: ["address"],
+        },
+      },
+      {
+        name: "reverse_geocode",
+        description: "Find the formatted addresses nearest to a coordinate.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            lat_lng: {
+              type: "string",
+              description: "Coordinates as 'lat,lng'",
+            },
+            limit: {
+              type: "number",
+              description: "Maximum number of results (1-10)",
+              default: 5
+            },
+          },
+          required: ["lat_lng"],
+        },
+      },
+      {
+        name: "usage_report",
+        description: "Report Street View and geocoding API usage: image, metadata and geocoding requests, cache hits and estimated spend for today, this month and per tool, together with the configured budgets and rate limit.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            days: {
+              type: "number",
+              description: "Number of recent days to include in the daily and per-tool breakdown (1-90)",
+              default: 7
+            },
+          },
+          required: [],
+        },
+      },
+      {
+        name: "analyze_image",
+        description: "Analyze a saved image: dominant color palette, brightness and contrast, a sharpness score, rough sky and vegetation pixel ratios (the vegetation ratio approximates the green view index) and whether it is Google's gray 'no imagery' placeholder. The results are stored in the image's catalog record and returned as JSON.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            filename: {
+              type: "string",
+              description: "Name of the image file in the output directory (or in the collection)",
+            },
+            collection: {
+              type: "string",
+              description: "Collection containing the image (default: the output directory root)",
+            },
+            palette_size: {
+              type: "number",
+              description: "Number of dominant colors to report (1-16)",
+              default: 5
+            },
+          },
+          required: ["filename"],
+        },
+      },
+      {
+        name: "get_config",
+        description: "Report the effective server settings and where each one came from (default, config file, environment or command line), along with the active providers, output directories and enabled tools. Secrets such as the API key are only reported as set or unset.",
+        inputSchema: {
+          type: "object",
+          properties: {},
+          required: [],
+        },
+      },
+    ].filter(tool => isToolAllowed(tool.name)),
+  };
+}
+
+async function handleToolCall(name: string, args: Record<string, unknown> | undefined) {
+  try {
+    if (!isToolAllowed(name)) {
+      throw new Error(`Tool ${name} is not enabled by the allowed_tools setting`);
+    }
+    switch (name) {
+      case "get_street_view": {
+        const validatedArgs = GetStreetViewSchema.parse(args);
+        const { filename, location, lat_lng, pano_id, size, heading, pitch, fov, radius, source, quality, scale, crop, annotate } = validatedArgs;
+        
+        try {
+          const saved = await saveStreetViewImage(validatedArgs);
+          
+          return {
+            content: [
+              {
+                type: "image",
+                data: saved.buffer.toString('base64'),
+                mimeType: `image/${saved.format}`,
+              },
+              {
+                type: "text",
+                text: JSON.stringify({
+                  status: "success",
+                  message: `Street View image saved successfully`,
+                  filename: saved.filename,
+                  requested_filename: filename && filename !== saved.filename ? filename : undefined,
+                  collection: validatedArgs.collection,
+                  path: saved.path,
+                  pano_id: saved.pano_id,
+                  address: saved.address,
+                  look_at: saved.look_at,
+                  metadata: {
+                    width: saved.width,
+                    height: saved.height,
+                    format: saved.format,
+                    size: `${Math.round(saved.buffer.length / 1024)}KB`
+                  },
+                  parameters: {
+                    location: location || lat_lng || pano_id,
+                    size,
+                    heading: saved.look_at?.heading ?? heading,
+                    pitch: saved.look_at?.pitch ?? pitch,
+                    fov: saved.look_at?.fov ?? fov,
+                    radius: pano_id ? undefined : radius,
+                    source,
+                    quality: saved.format === 'png' ? undefined : quality ?? JPEG_QUALITY,
+                    scale,
+                    crop,
+                    annotate
+                  }
+                }, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({ 
+                  error: `Street View image fetch failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+                  ...errorDetails(error)
+                }, null, 2),
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+
+      case "get_metadata": {
+        const validatedArgs = GetMetadataSchema.parse(args);
+        const { location, lat_lng, pano_id, radius, source, include_address } = validatedArgs;
+        
+        try {
+          // Build request parameters
+          const params = applyLocationParams({ radius, source }, { location, lat_lng, pano_id });
+          
+          // Fetch metadata
+          const metadata = await makeMetadataRequest(params);
+          
+          // Without an address in the request, name the snapped location when asked to (billed separately)
+          const address = include_address && !location && metadata.status === 'OK' && metadata.location
+            ? await lookupAddress([metadata.location.lat, metadata.location.lng])
+            : undefined;
+          
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  status: metadata.status,
+                  code: metadata.status === 'OK' ? undefined : errorFromApiStatus(metadata.status, '').code,
+                  copyright: metadata.copyright,
+                  date: metadata.date,
+                  pano_id: metadata.pano_id,
+                  location: metadata.location,
+                  address,
+                  query: {
+                    location: location || lat_lng || pano_id,
+                    radius: pano_id ? undefined : radius,
+                    source
+                  }
+                }, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({ 
+                  error: `Metadata fetch failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+                  ...errorDetails(error)
+                }, null, 2),
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+
+      case "create_html_page": {
+        const validatedArgs = CreateHtmlPageSchema.parse(args);
+        const { filename, title, html_elements, mode, export: exportMode, export_width, export_quality, on_conflict } = validatedArgs;
+        
+        let target: OutputTarget | undefined;
+        try {
+          // Ensure HTML directory exists with fallback handling
+          const actualHtmlDir = await ensureDirectoryExists(htmlDirectory());
+          const actualOutputDir = await ensureDirectoryExists(outputDirectory());
+          
+          // Ensure filename has .html extension, then apply the conflict mode
+          const requestedFilename = !filename
+            ? generateFilename(title, '', 'html')
+            : filename.endsWith('.html') ? filename : `${filename}.html`;
+          target = await resolveOutputTarget(actualHtmlDir, requestedFilename, on_conflict ?? (filename ? 'error' : 'auto_suffix'));
+          const htmlFilename = target.filename;
+          const filePath = target.path;
+          
+          // Combine HTML elements and sanitize the result
+          const rawContent = html_elements.join('\n');
+          const imageStatus = new Map<string, ImageSourceStatus>();
+          for (const src of collectImageSources(rawContent)) {
+            if (!imageStatus.has(src)) {
+              imageStatus.set(src, await checkImageSource(src, actualHtmlDir, actualOutputDir));
+            }
+          }
+          const { html: content, report } = sanitizeHtml(rawContent, mode, imageStatus);
+          
+          // HTML template
+          const htmlTemplate = `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${escapeXml(title)}</title>
+    <style>
+        body {
+            font-family: Arial, sans-serif;
+            line-height: 1.6;
+            max-width: 800px;
+            margin: 0 auto;
+            padding: 20px;
+            color: #333;
+        }
+        img {
+            max-width: 100%;
+            height: auto;
+            border-radius: 5px;
+            margin: 20px 0;
+        }
+        h1, h2, h3 {
+            color: #2c3e50;
+        }
+        .location {
+            font-weight: bold;
+            margin-bottom: 5px;
+        }
+        .description {
+            margin-bottom: 30px;
+        }
+    </style>
+</head>
+<body>
+${content}
+</body>
+</html>`;
+          
+          // Produce the portable variant if requested, then write to file
+          const exported = await exportHtmlPage(htmlTemplate, htmlFilename, actualHtmlDir, actualOutputDir, {
+            mode: exportMode,
+            width: export_width,
+            quality: export_quality,
+            overwrite: on_conflict === 'overwrite',
+          });
+          await fs.writeFile(filePath, exported.html, 'utf-8');
+          noteResourceChange(filePath);
+          
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  status: "success",
+                  message: `HTML page created successfully`,
+                  filename: htmlFilename,
+                  requested_filename: htmlFilename !== requestedFilename ? requestedFilename : undefined,
+                  path: filePath,
+                  title,
+                  elements_count: html_elements.length,
+                  sanitization: report,
+                  export: exported.report
+                }, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({ 
+                  error: `HTML page creation failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+                  ...errorDetails(error)
+                }, null, 2),
+              },
+            ],
+            isError: true,
+          };
+        } finally {
+          target?.release();
+        }
+      }
+
+      case "list_saved_images": {
+        const validatedArgs = ListSavedImagesSchema.parse(args ?? {});
+        const { near, within, date_from, date_to, pano_id, heading_min, heading_max, text, collection, page, page_size } = validatedArgs;
+        
+        try {
+          // Ensure output directory exists with fallback handling
+          const actualOutputDir = await ensureDirectoryExists(outputDirectory());
+          const collections = await listCollections(actualOutputDir);
+          
+          // '*' lists the root and every collection; otherwise a single folder
+          const folders: (string | undefined)[] = collection === '*'
+            ? [undefined, ...collections]
+            : [collection ? validateCollectionName(collection) : undefined];
+          
+          // Read directory contents
+          const imageExtensions = ['.jpg', '.jpeg', '.png', '.gif', '.bmp', '.webp', '.avif'];
+          const imageFiles: string[] = [];
+          for (const folder of folders) {
+            const files = await fs.readdir(resolveInside(actualOutputDir, folder ?? '.')).catch(() => [] as string[]);
+            imageFiles.push(...files
+              .filter(file => imageExtensions.some(ext => file.toLowerCase().endsWith(ext)))
+              .map(file => imageKey(folder, file)));
+          }
+          const catalog = await readCatalog(actualOutputDir);
+          
+          // Apply catalog filters; images without a record only match text searches on their filename
+          const nearPoint = near ? parseLatLng(near) : undefined;
+          const needle = text?.toLowerCase();
+          const matching = imageFiles.filter(file => {
+            const record = catalog[file];
+            if (nearPoint && (!record?.location || distanceMeters(nearPoint, [record.location.lat, record.location.lng]) > within)) {
+              return false;
+            }
+            if ((date_from || date_to) && !record?.date) {
+              return false;
+            }
+            // Compare 'YYYY' bounds against the year only, 'YYYY-MM' bounds against the full date
+            if (date_from && record!.date!.slice(0, date_from.length) < date_from) {
+              return false;
+            }
+            if (date_to && record!.date!.slice(0, date_to.length) > date_to) {
+              return false;
+            }
+            if (pano_id && record?.pano_id !== pano_id) {
+              return false;
+            }
+            if (heading_min !== undefined || heading_max !== undefined) {
+              const heading = record?.parameters?.heading;
+              if (typeof heading !== 'number' || !headingInRange(heading, heading_min ?? 0, heading_max ?? 360)) {
+                return false;
+              }
+            }
+            if (needle) {
+              const haystack = [file, record?.parameters?.location, record?.parameters?.lat_lng, record?.pano_id, record?.address]
+                .filter(Boolean)
+                .join(' ')
+                .toLowerCase();
+              if (!haystack.includes(needle)) {
+                return false;
+              }
+            }
+            return true;
+          });
+          
+          // Sort by most recent first, then describe only the requested page
+          const withStats = await Promise.all(
+            matching.map(async (file) => ({ file, stats: await fs.stat(join(actualOutputDir, file)) }))
+          );
+          withStats.sort((a, b) => b.stats.mtimeMs - a.stats.mtimeMs);
+          const pageItems = withStats.slice((page - 1) * page_size, page * page_size);
+          
+          // Get file stats for each image
+          const imageInfo = await Promise.all(
+            pageItems.map(async ({ file, stats }) => {
+              const filePath = join(actualOutputDir, file);
+              const record = catalog[file];
+              
+              try {
+                const metadata = await sharp(filePath).metadata();
+                return {
+                  filename: file,
+                  size: `${Math.round(stats.size / 1024)}KB`,
+                  dimensions: `${metadata.width}x${metadata.height}`,
+                  format: metadata.format,
+                  created: stats.birthtime.toISOString(),
+                  modified: stats.mtime.toISOString(),
+                  record,
+                };
+              } catch {
+                // Fallback if Sharp can't read the file
+                return {
+                  filename: file,
+                  size: `${Math.round(stats.size / 1024)}KB`,
+                  created: stats.birthtime.toISOString(),
+                  modified: stats.mtime.toISOString(),
+                  record,
+                };
+              }
+            })
+          );
+          
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  output_directory: actualOutputDir,
+                  collection: collection || undefined,
+                  collections,
+                  total_images: matching.length,
+                  page,
+                  page_size,
+                  total_pages: Math.max(1, Math.ceil(matching.length / page_size)),
+                  images: imageInfo
+                }, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({ 
+                  error: `Failed to list saved images: ${error instanceof Error ? error.message : 'Unknown error'}`,
+                  ...errorDetails(error)
+                }, null, 2),
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+
+      case "get_panorama": {
+        const validatedArgs = GetPanoramaSchema.parse(args);
+        const { filename, location, lat_lng, pano_id, tile_size, headings, pitches, projection, radius, source } = validatedArgs;
+        
+        try {
+          // Ensure output directory exists with fallback handling
+          const actualOutputDir = await ensureDirectoryExists(outputDirectory());
+          
+          // Check if file already exists
+          const filePath = resolveInside(actualOutputDir, validatePlainFilename(filename));
+          await assertFileDoesNotExist(filePath, filename);
+          
+          const [tileWidth, tileHeight] = parseSize(tile_size);
+          const step = 360 / headings;
+          const fov = Math.min(120, Math.max(10, step));
+          // Top rows first so the stitched image reads from sky to ground
+          const pitchRows = [...new Set(pitches)].sort((a, b) => b - a);
+          
+          // Resolve the panorama once, so every tile comes from it without a billed lookup per tile
+          const panorama = await makeMetadataRequest(applyLocationParams({ radius, source }, { location, lat_lng, pano_id }));
+          if (panorama.status !== 'OK' || !panorama.pano_id) {
+            throw noPanoramaError(panorama.status, { location, lat_lng, pano_id }, radius);
+          }
+          
+          // Fetch every tile through the same request path as get_street_view
+          const tiles: PanoramaTile[] = [];
+          for (const pitch of pitchRows) {
+            for (let i = 0; i < headings; i++) {
+              const heading = Math.round(i * step * 100) / 100;
+              const params = buildStreetViewParams(
+                { pano_id: panorama.pano_id },
+                { size: tile_size, heading, pitch, fov, radius, source }
+              );
+              const buffer = await makeApiRequest(params);
+              tiles.push({ heading, pitch, fov, size: tile_size, buffer });
+            }
+          }
+          
+          // Stitch and save the panorama
+          const panoramaBuffer = await stitchPanorama(tiles, headings, pitchRows, tileWidth, tileHeight, projection);
+          await fs.writeFile(filePath, panoramaBuffer);
+          noteResourceChange(filePath);
+          
+          await recordImage(actualOutputDir, {
+            filename,
+            saved_at: new Date().toISOString(),
+            tool: 'get_panorama',
+            parameters: { location, lat_lng, pano_id, tile_size, headings, pitches: pitchRows, projection, radius: pano_id ? undefined : radius, source },
+            ...metadataFields(panorama),
+          });
+          
+          const metadata = await sharp(panoramaBuffer).metadata();
+          
+          return {
+            content: [
+              {
+                type: "image",
+                data: panoramaBuffer.toString('base64'),
+                mimeType: "image/jpeg",
+              },
+              {
+                type: "text",
+                text: JSON.stringify({
+                  status: "success",
+                  message: `Panorama stitched from ${tiles.length} tiles and saved successfully`,
+                  filename,
+                  path: filePath,
+                  projection,
+                  pano_id: panorama.pano_id,
+                  metadata: {
+                    width: metadata.width,
+                    height: metadata.height,
+                    format: metadata.format,
+                    size: `${Math.round(panoramaBuffer.length / 1024)}KB`
+                  },
+                  parameters: {
+                    location: location || lat_lng || pano_id,
+                    radius: pano_id ? undefined : radius,
+                    source
+                  },
+                  tiles: tiles.map(({ heading, pitch, fov, size }) => ({ heading, pitch, fov, size })),
+                }, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({ 
+                  error: `Panorama creation failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+                  ...errorDetails(error)
+                }, null, 2),
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+
+      case "create_route_tour": {
+        const validatedArgs = CreateRouteTourSchema.parse(args);
+        const { name: tourName, start, end, polyline, waypoints, interval, max_frames, size, pitch, fov, radius, source } = validatedArgs;
+        
+        try {
+          // Ensure output directory exists with fallback handling
+          const actualOutputDir = await ensureDirectoryExists(outputDirectory());
+          
+          const manifestFilename = `${tourName}_manifest.json`;
+          const manifestPath = resolveInside(actualOutputDir, validatePlainFilename(manifestFilename));
+          await assertFileDoesNotExist(manifestPath, manifestFilename);
+          
+          // Build the path to follow
+          let path: LatLng[];
+          if (polyline) {
+            path = decodePolyline(polyline);
+          } else if (waypoints) {
+            path = waypoints.map(parseLatLng);
+          } else {
+            path = [await resolvePoint(start!, source), await resolvePoint(end!, source)];
+          }
+          if (path.length < 2) {
+            throw new Error("Route must contain at least two points");
+          }
+          
+          const samples = samplePath(path, interval);
+          
+          // Snap each sample to a real panorama and drop duplicates
+          const stops: { pano_id: string; location: LatLng; date?: string; sampled_point: LatLng }[] = [];
+          const seenPanoIds = new Set<string>();
+          let unavailable = 0;
+          for (const point of samples) {
+            if (stops.length >= max_frames) {
+              break;
+            }
+            const metadata = await makeMetadataRequest({
+              location: `${point[0]},${point[1]}`,
+              radius,
+              source,
+            });
+            if (metadata.status !== 'OK' || !metadata.pano_id || !metadata.location) {
+              unavailable++;
+              continue;
+            }
+            if (seenPanoIds.has(metadata.pano_id)) {
+              continue;
+            }
+            seenPanoIds.add(metadata.pano_id);
+            stops.push({
+              pano_id: metadata.pano_id,
+              location: [metadata.location.lat, metadata.location.lng],
+              date: metadata.date,
+              sampled_point: point,
+            });
+          }
+          
+          if (stops.length === 0) {
+            throw new Error("No Street View panoramas found along the route");
+          }
+          
+          // Check every frame target before fetching, so a name conflict cannot leave a partial tour behind
+          const frameTargets = stops.map((_, i) => {
+            const filename = `${tourName}_${String(i + 1).padStart(3, '0')}.jpg`;
+            return { filename, path: resolveInside(actualOutputDir, validatePlainFilename(filename)) };
+          });
+          for (const target of frameTargets) {
+            await assertFileDoesNotExist(target.path, target.filename);
+          }
+          
+          // Fetch each frame facing the next stop
+          const frames = [];
+          let heading = stops.length > 1 ? bearingDegrees(stops[0].location, stops[1].location) : 0;
+          for (let i = 0; i < stops.length; i++) {
+            const stop = stops[i];
+            if (i < stops.length - 1) {
+              heading = bearingDegrees(stop.location, stops[i + 1].location);
+            }
+            const roundedHeading = Math.round(heading * 10) / 10;
+            
+            const { filename: frameFilename, path: framePath } = frameTargets[i];
+            
+            const params = buildStreetViewParams(
+              { pano_id: stop.pano_id },
+              { size, heading: roundedHeading, pitch, fov, radius, source }
+            );
+            const imageBuffer = await makeApiRequest(params);
+            await sharp(imageBuffer)
+              .jpeg({ quality: JPEG_QUALITY })
+              .toFile(framePath);
+            noteResourceChange(framePath);
+            
+            await recordImage(actualOutputDir, {
+              filename: frameFilename,
+              saved_at: new Date().toISOString(),
+              tool: 'create_route_tour',
+              parameters: { pano_id: stop.pano_id, size, heading: roundedHeading, pitch, fov, source },
+              pano_id: stop.pano_id,
+              date: stop.date,
+              location: { lat: stop.location[0], lng: stop.location[1] },
+            });
+            
+            frames.push({
+              index: i + 1,
+              filename: frameFilename,
+              pano_id: stop.pano_id,
+              location: { lat: stop.location[0], lng: stop.location[1] },
+              date: stop.date,
+              heading: roundedHeading,
+              sampled_point: { lat: stop.sampled_point[0], lng: stop.sampled_point[1] },
+            });
+          }
+          
+          const manifest = {
+            name: tourName,
+            created: new Date().toISOString(),
+            parameters: { interval, max_frames, size, pitch, fov, radius, source },
+            route: path.map(([lat, lng]) => ({ lat, lng })),
+            sampled_points: samples.length,
+            unavailable_points: unavailable,
+            frames,
+          };
+          await fs.writeFile(manifestPath, JSON.stringify(manifest, null, 2), 'utf-8');
+          noteResourceChange(manifestPath);
+          
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  status: "success",
+                  message: `Route tour created with ${frames.length} frames`,
+                  manifest: manifestFilename,
+                  path: manifestPath,
+                  sampled_points: samples.length,
+                  unavailable_points: unavailable,
+                  frames: frames.map(({ index, filename, pano_id, location, date, heading }) => ({ index, filename, pano_id, location, date, heading })),
+                }, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({ 
+                  error: `Route tour creation failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+                  ...errorDetails(error)
+                }, null, 2),
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+
+      case "export_animation": {
+        const validatedArgs = ExportAnimationSchema.parse(args);
+        const { filename, frames, pattern, format, delay, width, height, captions, loop, quality } = validatedArgs;
+        
+        try {
+          // Ensure output directory exists with fallback handling
+          const actualOutputDir = await ensureDirectoryExists(outputDirectory());
+          
+          // Ensure filename has the extension of the chosen format
+          const animationFilename = filename.toLowerCase().endsWith(`.${format}`) ? filename : `${filename}.${format}`;
+          const filePath = resolveInside(actualOutputDir, validatePlainFilename(animationFilename));
+          await assertFileDoesNotExist(filePath, animationFilename);
+          
+          // Resolve the ordered frame list
+          let frameFiles: string[];
+          if (frames) {
+            frameFiles = frames;
+          } else {
+            const matcher = globToRegExp(pattern!);
+            frameFiles = (await fs.readdir(actualOutputDir))
+              .filter(file => matcher.test(file) && file !== animationFilename)
+              .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+            if (frameFiles.length === 0) {
+              throw new Error(`No files in output directory match pattern '${pattern}'`);
+            }
+          }
+          
+          if (Array.isArray(delay) && delay.length !== frameFiles.length) {
+            throw new Error(`Expected ${frameFiles.length} delay values but got ${delay.length}`);
+          }
+          if (captions && captions.length > 1 && captions.length !== frameFiles.length) {
+            throw new Error(`Expected ${frameFiles.length} captions but got ${captions.length}`);
+          }
+          
+          // Every frame is normalized to the same dimensions
+          const firstMetadata = await sharp(resolveInside(actualOutputDir, frameFiles[0])).metadata();
+          const frameWidth = width ?? (height && firstMetadata.width && firstMetadata.height
+            ? Math.round(firstMetadata.width * height / firstMetadata.height)
+            : firstMetadata.width!);
+          const frameHeight = height ?? (width && firstMetadata.width && firstMetadata.height
+            ? Math.round(firstMetadata.height * width / firstMetadata.width)
+            : firstMetadata.height!);
+          
+          const frameBuffers = await Promise.all(frameFiles.map(async (file, index) => {
+            let image = sharp(resolveInside(actualOutputDir, file)).resize(frameWidth, frameHeight, { fit: 'cover' });
+            const caption = captions && (captions.length === 1 ? captions[0] : captions[index]);
+            if (caption) {
+              image = sharp(await image.png().toBuffer())
+                .composite([{ input: renderCaptionOverlay(caption, frameWidth, frameHeight), top: 0, left: 0 }]);
+            }
+            return image.png().toBuffer();
+          }));
+          
+          // Join frames into a single animated image
+          const frameDelays = Array.isArray(delay) ? delay : frameFiles.map(() => delay);
+          const animation = sharp(frameBuffers, { join: { animated: true } });
+          const animationBuffer = format === 'gif'
+            ? await animation.gif({ delay: frameDelays, loop }).toBuffer()
+            : await animation.webp({ delay: frameDelays, loop, quality }).toBuffer();
+          await fs.writeFile(filePath, animationBuffer);
+          noteResourceChange(filePath);
+          
+          return {
+            content: [
+              {
+                type: "image",
+                data: animationBuffer.toString('base64'),
+                mimeType: `image/${format}`,
+              },
+              {
+                type: "text",
+                text: JSON.stringify({
+                  status: "success",
+                  message: `Animation created from ${frameFiles.length} frames`,
+                  filename: animationFilename,
+                  path: filePath,
+                  metadata: {
+                    width: frameWidth,
+                    height: frameHeight,
+                    format,
+                    frames: frameFiles.length,
+                    size: `${Math.round(animationBuffer.length / 1024)}KB`
+                  },
+                  frames: frameFiles,
+                  delay,
+                  loop,
+                }, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({ 
+                  error: `Animation export failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+                  ...errorDetails(error)
+                }, null, 2),
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+
+      case "cache_status": {
+        CacheStatusSchema.parse(args ?? {});
+        
+        try {
+          const index = await loadCacheIndex();
+          const entries = [...index.values()];
+          const now = Date.now();
+          const summarize = (kind: CacheEntry['kind']) => {
+            const ofKind = entries.filter(entry => entry.kind === kind);
+            return {
+              entries: ofKind.length,
+              size: `${Math.round(ofKind.reduce((sum, entry) => sum + entry.size, 0) / 1024)}KB`,
+            };
+          };
+          const totalBytes = entries.reduce((sum, entry) => sum + entry.size, 0);
+          const created = entries.map(entry => entry.created);
+          
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  enabled: CACHE_ENABLED,
+                  offline: OFFLINE_MODE,
+                  directory: CACHE_DIR,
+                  ttl_seconds: CACHE_TTL_MS / 1000,
+                  max_size: `${Math.round(CACHE_MAX_BYTES / 1024 / 1024)}MB`,
+                  total_entries: entries.length,
+                  total_size: `${Math.round(totalBytes / 1024)}KB`,
+                  expired_entries: entries.filter(entry => isCacheEntryExpired(entry, now)).length,
+                  image: summarize('image'),
+                  metadata: summarize('metadata'),
+                  geocode: summarize('geocode'),
+                  oldest_entry: created.length ? new Date(Math.min(...created)).toISOString() : undefined,
+                  newest_entry: created.length ? new Date(Math.max(...created)).toISOString() : undefined,
+                  session: { ...cacheStats },
+                }, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({ 
+                  error: `Failed to read cache status: ${error instanceof Error ? error.message : 'Unknown error'}`,
+                  ...errorDetails(error)
+                }, null, 2),
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+
+      case "clear_cache": {
+        const validatedArgs = ClearCacheSchema.parse(args ?? {});
+        const { kind, expired_only } = validatedArgs;
+        
+        try {
+          const now = Date.now();
+          const { removed, bytes } = await clearCacheEntries(entry =>
+            (kind === 'all' || entry.kind === kind) && (!expired_only || isCacheEntryExpired(entry, now))
+          );
+          
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  status: "success",
+                  message: `Removed ${removed} cache entries`,
+                  kind,
+                  expired_only,
+                  removed_entries: removed,
+                  freed: `${Math.round(bytes / 1024)}KB`,
+                }, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({ 
+                  error: `Failed to clear cache: ${error instanceof Error ? error.message : 'Unknown error'}`,
+                  ...errorDetails(error)
+                }, null, 2),
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+
+      case "batch_get_street_view": {
+        const validatedArgs = BatchGetStreetViewSchema.parse(args);
+        const { requests, concurrency, retries, retry_delay } = validatedArgs;
+        
+        try {
+          const seenFilenames = new Set<string>();
+          
+          const results = await runWithConcurrency(requests, concurrency, async (item, index) => {
+            const parsed = GetStreetViewSchema.safeParse(item);
+            if (!parsed.success) {
+              return {
+                index,
+                filename: (item as { filename?: unknown })?.filename,
+                status: "error",
+                error: parsed.error.errors.map(issue => issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message).join('; '),
+              };
+            }
+            const itemArgs = parsed.data;
+            
+            // Two items writing the same file would race each other
+            const filenameKey = itemArgs.filename && imageKey(itemArgs.collection, itemArgs.filename);
+            if (filenameKey && seenFilenames.has(filenameKey)) {
+              return {
+                index,
+                filename: itemArgs.filename,
+                status: "error",
+                error: `Duplicate filename ${filenameKey} in batch`,
+              };
+            }
+            if (filenameKey) {
+              seenFilenames.add(filenameKey);
+            }
+            
+            // Transient failures are retried per API request with the batch's policy
+            try {
+              const saved = await requestContext.run(
+                { tool: "batch_get_street_view", ...requestContext.getStore(), retries, retryDelayMs: retry_delay },
+                () => saveStreetViewImage(itemArgs)
+              );
+              return {
+                index,
+                filename: saved.filename,
+                status: "success",
+                path: saved.path,
+                dimensions: `${saved.width}x${saved.height}`,
+              };
+            } catch (error) {
+              return {
+                index,
+                filename: itemArgs.filename,
+                status: "error",
+                error: error instanceof Error ? error.message : 'Unknown error',
+                ...errorDetails(error),
+              };
+            }
+          });
+          
+          const succeeded = results.filter(result => result.status === "success").length;
+          
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  status: succeeded === results.length ? "success" : succeeded > 0 ? "partial" : "failed",
+                  message: `${succeeded} of ${results.length} Street View images saved`,
+                  total: results.length,
+                  succeeded,
+                  failed: results.length - succeeded,
+                  results,
+                }, null, 2),
+              },
+            ],
+            isError: succeeded === 0,
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({ 
+                  error: `Batch Street View fetch failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+                  ...errorDetails(error)
+                }, null, 2),
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+
+      case "probe_coverage": {
+        const validatedArgs = ProbeCoverageSchema.parse(args);
+        const { bbox, center, radius, spacing, search_radius, max_points, concurrency, include_gaps, source, filename } = validatedArgs;
+        
+        try {
+          // Parse the probe area
+          let area: { bbox: [number, number, number, number] } | { center: LatLng; radius: number };
+          if (bbox) {
+            const values = bbox.split(',').map(value => parseFloat(value.trim()));
+            if (values.length !== 4 || values.some(isNaN) || values[0] >= values[2] || values[1] >= values[3]) {
+              throw new Error("Invalid bbox format. Use format: 'south,west,north,east'");
+            }
+            area = { bbox: values as [number, number, number, number] };
+          } else {
+            area = { center: parseLatLng(center!), radius: radius! };
+          }
+          
+          const grid = buildProbeGrid(area, spacing, max_points);
+          
+          // Optionally prepare the output file before probing
+          let filePath: string | undefined;
+          let geojsonFilename: string | undefined;
+          if (filename) {
+            const actualOutputDir = await ensureDirectoryExists(outputDirectory());
+            geojsonFilename = filename.endsWith('.geojson') || filename.endsWith('.json') ? filename : `${filename}.geojson`;
+            filePath = resolveInside(actualOutputDir, validatePlainFilename(geojsonFilename));
+            await assertFileDoesNotExist(filePath, geojsonFilename);
+          }
+          
+          const snapRadius = search_radius ?? Math.max(1, Math.round(spacing / 2));
+          const probes = await runWithConcurrency(grid, concurrency, async (point) => {
+            // Failed probes are tallied by error code instead of aborting the whole grid
+            const metadata = await makeMetadataRequest({
+              location: `${point[0]},${point[1]}`,
+              radius: snapRadius,
+              source,
+            }).catch((error): StreetViewMetadata => {
+              if (error instanceof StreetViewError && error.code !== 'BUDGET_EXCEEDED') {
+                return { status: error.code };
+              }
+              throw error;
+            });
+            return { point, metadata };
+          });
+          
+          // Dedupe by pano_id, counting how many grid points snapped to each
+          const panoramas = new Map<string, { metadata: StreetViewMetadata; grid_points: number }>();
+          const gaps: LatLng[] = [];
+          const failures: Record<string, number> = {};
+          for (const { point, metadata } of probes) {
+            if (metadata.status === 'OK' && metadata.pano_id && metadata.location) {
+              const existing = panoramas.get(metadata.pano_id);
+              if (existing) {
+                existing.grid_points++;
+              } else {
+                panoramas.set(metadata.pano_id, { metadata, grid_points: 1 });
+              }
+            } else if (metadata.status === 'ZERO_RESULTS' || metadata.status === 'NOT_FOUND') {
+              gaps.push(point);
+            } else {
+              failures[metadata.status] = (failures[metadata.status] ?? 0) + 1;
+            }
+          }
+          
+          const features: PointFeature[] = [...panoramas.values()].map(({ metadata, grid_points }) => ({
+            type: "Feature",
+            geometry: { type: "Point", coordinates: [metadata.location!.lng, metadata.location!.lat] },
+            properties: {
+              available: true,
+              pano_id: metadata.pano_id,
+              date: metadata.date,
+              copyright: metadata.copyright,
+              grid_points,
+            },
+          }));
+          if (include_gaps) {
+            for (const [lat, lng] of gaps) {
+              features.push({
+                type: "Feature",
+                geometry: { type: "Point", coordinates: [lng, lat] },
+                properties: { available: false },
+              });
+            }
+          }
+          
+          const featureCollection = { type: "FeatureCollection", features };
+          if (filePath) {
+            await fs.writeFile(filePath, JSON.stringify(featureCollection, null, 2), 'utf-8');
+            noteResourceChange(filePath);
+          }
+          
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  status: "success",
+                  message: `Found ${panoramas.size} distinct panoramas across ${grid.length} grid points`,
+                  summary: {
+                    grid_points: grid.length,
+                    covered_points: grid.length - gaps.length - Object.values(failures).reduce((sum, count) => sum + count, 0),
+                    gap_points: gaps.length,
+                    failed_points: Object.keys(failures).length ? failures : undefined,
+                    distinct_panoramas: panoramas.size,
+                    spacing,
+                    search_radius: snapRadius,
+                  },
+                  filename: geojsonFilename,
+                  path: filePath,
+                  geojson: featureCollection,
+                }, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({ 
+                  error: `Coverage probe failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+                  ...errorDetails(error)
+                }, null, 2),
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
 
-  try {
-    switch (name) {
-      case "get_street_view": {
-        const validatedArgs = GetStreetViewSchema.parse(args);
-        const { filename, location, lat_lng, pano_id, size, heading, pitch, fov, radius, source } = validatedArgs;
+      case "get_pano_history": {
+        const validatedArgs = GetPanoHistorySchema.parse(args);
+        const { location, lat_lng, search_radius, rings, points_per_ring, source, fetch_images, filename_prefix, heading, pitch, fov, size } = validatedArgs;
         
         try {
-          // Ensure output directory exists with fallback handling
-          const actualOutputDir = await ensureDirectoryExists(OUTPUT_DIR);
+          // Resolve the center point; addresses are snapped through the metadata API
+          const center = lat_lng ? parseLatLng(lat_lng) : await resolvePoint(location!, source);
           
-          // Check if file already exists
-          const filePath = join(actualOutputDir, filename);
-          try {
-            await fs.access(filePath);
-            throw new Error(`File ${filename} already exists in output directory`);
-          } catch (error) {
-            // File doesn't exist, which is what we want
-            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
-              throw error;
+          const probePoints = buildRingOffsets(center, search_radius, rings, points_per_ring);
+          const probeRadius = Math.max(1, Math.round(search_radius / rings / 2));
+          // A failed probe is reported alongside the results instead of failing the whole lookup
+          const probes = await runWithConcurrency(probePoints, 4, async (point): Promise<{ point: LatLng; metadata?: StreetViewMetadata; error?: unknown }> => {
+            try {
+              return { point, metadata: await makeMetadataRequest({ location: `${point[0]},${point[1]}`, radius: probeRadius, source }) };
+            } catch (error) {
+              return { point, error };
             }
+          });
+          const failedProbes = probes.filter(probe => !probe.metadata);
+          if (failedProbes.length === probes.length) {
+            throw failedProbes[0].error;
           }
+          const probeErrors = failedProbes.map(probe => ({
+            location: { lat: probe.point[0], lng: probe.point[1] },
+            error: probe.error instanceof Error ? probe.error.message : 'Unknown error',
+            ...errorDetails(probe.error),
+          }));
           
-          // Build request parameters
-          const params: Record<string, any> = {
-            size,
-            heading,
-            pitch,
-            fov,
-            radius,
-            source,
-            return_error_code: 'true',
-          };
+          // Keep each distinct panorama once
+          const panoramas = new Map<string, { metadata: StreetViewMetadata; distance: number }>();
+          for (const { metadata } of probes) {
+            if (!metadata || metadata.status !== 'OK' || !metadata.pano_id || !metadata.location || panoramas.has(metadata.pano_id)) {
+              continue;
+            }
+            const distance = distanceMeters(center, [metadata.location.lat, metadata.location.lng]);
+            panoramas.set(metadata.pano_id, { metadata, distance });
+          }
+          
+          const timeline = groupByCaptureDate([...panoramas.values()]).map(({ date, panoramas: grouped }) => ({
+            date,
+            year: date === 'unknown' ? undefined : date.slice(0, 4),
+            panoramas: grouped
+              .sort((a, b) => a.distance - b.distance)
+              .map(({ metadata, distance }) => ({
+                pano_id: metadata.pano_id,
+                location: metadata.location,
+                distance_m: Math.round(distance * 10) / 10,
+                copyright: metadata.copyright,
+              })),
+          }));
+          
+          const years: Record<string, string[]> = {};
+          for (const entry of timeline) {
+            if (entry.year) {
+              years[entry.year] = [...(years[entry.year] ?? []), entry.date];
+            }
+          }
           
-          // Set location parameter
-          if (location) {
-            params.location = location;
-          } else if (lat_lng) {
-            const [lat, lng] = parseLatLng(lat_lng);
-            params.location = `${lat},${lng}`;
-          } else if (pano_id) {
-            params.pano = pano_id;
-            delete params.radius; // Not applicable for pano_id
+          // Optionally fetch the closest panorama for every capture date
+          const images = [];
+          if (fetch_images) {
+            for (const entry of timeline) {
+              const closest = entry.panoramas[0];
+              const filename = `${filename_prefix}_${entry.date}.jpg`;
+              try {
+                const saved = await saveStreetViewImage({
+                  filename,
+                  pano_id: closest.pano_id,
+                  size,
+                  heading,
+                  pitch,
+                  fov,
+                  radius: 50,
+                  source,
+                });
+                images.push({ date: entry.date, pano_id: closest.pano_id, filename, path: saved.path });
+              } catch (error) {
+                images.push({
+                  date: entry.date,
+                  pano_id: closest.pano_id,
+                  filename,
+                  error: error instanceof Error ? error.message : 'Unknown error',
+                  ...errorDetails(error),
+                });
+              }
+            }
           }
           
-          // Fetch the image
-          const imageBuffer = await makeApiRequest(BASE_URL, params);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  status: probeErrors.length > 0 ? "partial" : "success",
+                  message: `Found ${panoramas.size} distinct panoramas across ${timeline.length} capture dates`
+                    + (probeErrors.length > 0 ? ` (${probeErrors.length} of ${probePoints.length} probes failed)` : ''),
+                  center: { lat: center[0], lng: center[1] },
+                  probe_points: probePoints.length,
+                  distinct_panoramas: panoramas.size,
+                  years,
+                  timeline,
+                  probe_errors: probeErrors.length > 0 ? probeErrors : undefined,
+                  images: fetch_images ? images : undefined,
+                }, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({ 
+                  error: `Panorama history lookup failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+                  ...errorDetails(error)
+                }, null, 2),
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+
+      case "compare_images": {
+        const validatedArgs = CompareImagesSchema.parse(args);
+        const { filename, images, mode, tile_width, columns, gap, labels, threshold } = validatedArgs;
+        
+        try {
+          // Ensure output directory exists with fallback handling
+          const actualOutputDir = await ensureDirectoryExists(outputDirectory());
+          
+          const outputFilename = /\.jpe?g$/i.test(filename) ? filename : `${filename}.jpg`;
+          const filePath = resolveInside(actualOutputDir, validatePlainFilename(outputFilename));
+          await assertFileDoesNotExist(filePath, outputFilename);
+          
+          // Normalize every image to the same tile size
+          const firstMetadata = await sharp(resolveInside(actualOutputDir, images[0])).metadata();
+          const tileWidth = tile_width ?? firstMetadata.width!;
+          const tileHeight = Math.round(tileWidth * firstMetadata.height! / firstMetadata.width!);
+          const tiles = await Promise.all(images.map(async (image) => {
+            let tile = sharp(resolveInside(actualOutputDir, image)).resize(tileWidth, tileHeight, { fit: 'cover' });
+            if (labels && (mode === 'side_by_side' || mode === 'grid')) {
+              tile = sharp(await tile.png().toBuffer())
+                .composite([{ input: renderCaptionOverlay(image, tileWidth, tileHeight), top: 0, left: 0 }]);
+            }
+            return tile.removeAlpha().png().toBuffer();
+          }));
           
-          // Process and save the image using Sharp
-          await sharp(imageBuffer)
-            .jpeg({ quality: 95 })
-            .toFile(filePath);
+          let composite: Buffer;
+          const details: Record<string, any> = {};
           
-          // Get image metadata for response
-          const metadata = await sharp(filePath).metadata();
+          if (mode === 'side_by_side' || mode === 'grid') {
+            const columnCount = mode === 'grid' ? (columns ?? Math.ceil(Math.sqrt(tiles.length))) : tiles.length;
+            const rowCount = Math.ceil(tiles.length / columnCount);
+            composite = await sharp({
+              create: {
+                width: columnCount * tileWidth + (columnCount - 1) * gap,
+                height: rowCount * tileHeight + (rowCount - 1) * gap,
+                channels: 3,
+                background: { r: 255, g: 255, b: 255 },
+              },
+            })
+              .composite(tiles.map((input, index) => ({
+                input,
+                left: (index % columnCount) * (tileWidth + gap),
+                top: Math.floor(index / columnCount) * (tileHeight + gap),
+              })))
+              .jpeg({ quality: JPEG_QUALITY })
+              .toBuffer();
+            details.layout = { columns: columnCount, rows: rowCount };
+          } else if (mode === 'swipe') {
+            // Save the aligned pair so a slider UI can overlay them exactly
+            const baseName = outputFilename.replace(/\.jpe?g$/i, '');
+            const pair = [`${baseName}_a.jpg`, `${baseName}_b.jpg`];
+            // Reserve both files up front and remove the first if the second cannot be written
+            const pairTargets: OutputTarget[] = [];
+            const written: string[] = [];
+            try {
+              for (const pairFilename of pair) {
+                await assertFileDoesNotExist(resolveInside(actualOutputDir, validatePlainFilename(pairFilename)), pairFilename);
+                pairTargets.push(await resolveOutputTarget(actualOutputDir, pairFilename, 'error'));
+              }
+              for (const [index, target] of pairTargets.entries()) {
+                await sharp(tiles[index]).jpeg({ quality: JPEG_QUALITY }).toFile(target.path);
+                written.push(target.path);
+              }
+            } catch (error) {
+              await Promise.all(written.map(path => fs.rm(path, { force: true })));
+              throw error;
+            } finally {
+              pairTargets.forEach(target => target.release());
+            }
+            written.forEach(noteResourceChange);
+            
+            const half = Math.round(tileWidth / 2);
+            const rightHalf = await sharp(tiles[1]).extract({ left: half, top: 0, width: tileWidth - half, height: tileHeight }).toBuffer();
+            const divider = await sharp({
+              create: { width: 2, height: tileHeight, channels: 3, background: { r: 255, g: 255, b: 255 } },
+            }).png().toBuffer();
+            composite = await sharp(tiles[0])
+              .composite([
+                { input: rightHalf, left: half, top: 0 },
+                { input: divider, left: Math.max(0, half - 1), top: 0 },
+              ])
+              .jpeg({ quality: JPEG_QUALITY })
+              .toBuffer();
+            details.pair = pair;
+          } else {
+            const [first, second] = await Promise.all(tiles.map(tile => sharp(tile).raw().toBuffer()));
+            const { heatmap, changedPixels } = renderDiffHeatmap(first, second, tileWidth, tileHeight, threshold);
+            composite = await sharp(heatmap, { raw: { width: tileWidth, height: tileHeight, channels: 3 } })
+              .jpeg({ quality: JPEG_QUALITY })
+              .toBuffer();
+            details.changed_pixels = changedPixels;
+            details.change_percentage = Math.round(changedPixels / (tileWidth * tileHeight) * 10000) / 100;
+            details.threshold = threshold;
+          }
           
-          // Read the saved image file to return to the model
-          const savedImageBuffer = await fs.readFile(filePath);
+          await fs.writeFile(filePath, composite);
+          noteResourceChange(filePath);
+          const metadata = await sharp(composite).metadata();
           
           return {
             content: [
               {
                 type: "image",
-                data: savedImageBuffer.toString('base64'),
+                data: composite.toString('base64'),
                 mimeType: "image/jpeg",
               },
               {
                 type: "text",
                 text: JSON.stringify({
                   status: "success",
-                  message: `Street View image saved successfully`,
-                  filename,
+                  message: `Comparison image created in ${mode} mode`,
+                  filename: outputFilename,
                   path: filePath,
+                  mode,
+                  images,
                   metadata: {
                     width: metadata.width,
                     height: metadata.height,
                     format: metadata.format,
-                    size: `${Math.round((await fs.stat(filePath)).size / 1024)}KB`
+                    size: `${Math.round(composite.length / 1024)}KB`
                   },
-                  parameters: {
-                    location: location || lat_lng || pano_id,
-                    size,
-                    heading,
-                    pitch,
-                    fov,
-                    radius: pano_id ? undefined : radius,
-                    source
+                  ...details,
+                }, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({ 
+                  error: `Image comparison failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+                  ...errorDetails(error)
+                }, null, 2),
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+
+      case "create_tour": {
+        const validatedArgs = CreateTourSchema.parse(args);
+        const { filename, title, intro, stops, image_mode, export: exportMode, export_width, export_quality } = validatedArgs;
+        
+        try {
+          // Ensure both directories exist with fallback handling
+          const actualHtmlDir = await ensureDirectoryExists(htmlDirectory());
+          const actualOutputDir = await ensureDirectoryExists(outputDirectory());
+          
+          // Ensure filename has .html extension
+          const htmlFilename = filename.endsWith('.html') ? filename : `${filename}.html`;
+          const filePath = resolveInside(actualHtmlDir, validatePlainFilename(htmlFilename));
+          await assertFileDoesNotExist(filePath, htmlFilename);
+          
+          // Every referenced image must exist before anything is written
+          const missing = [];
+          for (const stop of stops) {
+            try {
+              await fs.access(resolveInside(actualOutputDir, stop.image));
+            } catch {
+              missing.push(stop.image);
+            }
+          }
+          if (missing.length > 0) {
+            throw new Error(`Images not found in output directory: ${missing.join(', ')}`);
+          }
+          
+          // Resolve each image to a path relative to the page
+          const assetsDirName = `${htmlFilename.replace(/\.html$/, '')}_assets`;
+          const resolvedStops = [];
+          // Asset names by source path; images from different collections can share a basename
+          const assetNames = new Map<string, string>();
+          // Copied assets are removed again if the page cannot be exported or written
+          const copied: string[] = [];
+          let createdAssetsDir: string | undefined;
+          let exported: Awaited<ReturnType<typeof exportHtmlPage>>;
+          try {
+            for (const stop of stops) {
+              const imagePath = resolveInside(actualOutputDir, stop.image);
+              let src: string;
+              if (image_mode === 'copy') {
+                let assetName = assetNames.get(imagePath);
+                if (!assetName) {
+                  const name = basename(imagePath);
+                  const dot = name.lastIndexOf('.');
+                  const stem = dot > 0 ? name.slice(0, dot) : name;
+                  const extension = dot > 0 ? name.slice(dot) : '';
+                  const taken = new Set(assetNames.values());
+                  assetName = name;
+                  for (let attempt = 2; taken.has(assetName); attempt++) {
+                    assetName = `${stem}_${attempt}${extension}`;
                   }
+                  assetNames.set(imagePath, assetName);
+                  const assetsDir = join(actualHtmlDir, assetsDirName);
+                  createdAssetsDir ??= await fs.mkdir(assetsDir, { recursive: true });
+                  await fs.copyFile(imagePath, join(assetsDir, assetName));
+                  copied.push(join(assetsDir, assetName));
+                }
+                src = `${assetsDirName}/${assetName}`;
+              } else {
+                src = relative(actualHtmlDir, imagePath).split(sep).join('/');
+              }
+              resolvedStops.push({ ...stop, src });
+            }
+            
+            exported = await exportHtmlPage(
+              renderTourHtml(title, intro, resolvedStops),
+              htmlFilename,
+              actualHtmlDir,
+              actualOutputDir,
+              { mode: exportMode, width: export_width, quality: export_quality }
+            );
+            await fs.writeFile(filePath, exported.html, 'utf-8');
+          } catch (error) {
+            await Promise.all(copied.map(path => fs.rm(path, { force: true })));
+            if (createdAssetsDir) {
+              await fs.rm(createdAssetsDir, { recursive: true, force: true });
+            }
+            throw error;
+          }
+          copied.forEach(noteResourceChange);
+          noteResourceChange(filePath);
+          
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  status: "success",
+                  message: `Tour page created successfully`,
+                  filename: htmlFilename,
+                  path: filePath,
+                  title,
+                  image_mode,
+                  assets_directory: image_mode === 'copy' ? join(actualHtmlDir, assetsDirName) : undefined,
+                  stops: resolvedStops.map(({ title: stopTitle, src }) => ({ title: stopTitle, src })),
+                  export: exported.report,
+                }, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({ 
+                  error: `Tour creation failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+                  ...errorDetails(error)
+                }, null, 2),
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+
+      case "delete_image": {
+        const validatedArgs = DeleteImageSchema.parse(args);
+        const { filenames, collection } = validatedArgs;
+        
+        try {
+          const actualOutputDir = await ensureDirectoryExists(outputDirectory());
+          const folder = collection ? resolveInside(actualOutputDir, validateCollectionName(collection)) : actualOutputDir;
+          
+          const results = [];
+          for (const filename of filenames) {
+            const key = imageKey(collection, filename);
+            try {
+              await fs.unlink(resolveInside(folder, validatePlainFilename(filename)));
+              noteResourceChange(resolveInside(folder, filename));
+              await updateCatalog(actualOutputDir, catalog => {
+                delete catalog[key];
+              });
+              results.push({ filename: key, status: "deleted" });
+            } catch (error) {
+              const message = (error as NodeJS.ErrnoException).code === 'ENOENT'
+                ? `File ${key} not found`
+                : error instanceof Error ? error.message : 'Unknown error';
+              results.push({ filename: key, status: "error", error: message });
+            }
+          }
+          const deleted = results.filter(result => result.status === "deleted").length;
+          
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  status: deleted === results.length ? "success" : deleted > 0 ? "partial" : "failed",
+                  message: `Deleted ${deleted} of ${results.length} images`,
+                  results,
+                }, null, 2),
+              },
+            ],
+            isError: deleted === 0,
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({ 
+                  error: `Image deletion failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+                  ...errorDetails(error)
+                }, null, 2),
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+
+      case "rename_image": {
+        const validatedArgs = RenameImageSchema.parse(args);
+        const { filename, new_filename, collection } = validatedArgs;
+        
+        try {
+          const actualOutputDir = await ensureDirectoryExists(outputDirectory());
+          const folder = collection ? resolveInside(actualOutputDir, validateCollectionName(collection)) : actualOutputDir;
+          const sourcePath = resolveInside(folder, validatePlainFilename(filename));
+          const targetPath = resolveInside(folder, validatePlainFilename(new_filename));
+          const oldKey = imageKey(collection, filename);
+          const newKey = imageKey(collection, new_filename);
+          
+          await fs.access(sourcePath).catch(() => {
+            throw new Error(`File ${oldKey} not found`);
+          });
+          await assertFileDoesNotExist(targetPath, newKey);
+          await fs.rename(sourcePath, targetPath);
+          noteResourceChange(sourcePath);
+          noteResourceChange(targetPath);
+          await updateCatalog(actualOutputDir, catalog => {
+            if (catalog[oldKey]) {
+              catalog[newKey] = { ...catalog[oldKey], filename: newKey };
+              delete catalog[oldKey];
+            }
+          });
+          
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  status: "success",
+                  message: `Image renamed successfully`,
+                  from: oldKey,
+                  to: newKey,
+                  path: targetPath,
+                }, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({ 
+                  error: `Image rename failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+                  ...errorDetails(error)
+                }, null, 2),
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+
+      case "organize_images": {
+        const validatedArgs = OrganizeImagesSchema.parse(args);
+        const { filenames, pattern, from_collection, to_collection } = validatedArgs;
+        
+        try {
+          const actualOutputDir = await ensureDirectoryExists(outputDirectory());
+          const sourceDir = from_collection ? resolveInside(actualOutputDir, validateCollectionName(from_collection)) : actualOutputDir;
+          const targetDir = await collectionDirectory(actualOutputDir, to_collection || undefined);
+          if (resolve(sourceDir) === resolve(targetDir)) {
+            throw new Error("Source and destination collections are the same");
+          }
+          
+          // Resolve the files to move
+          let selected: string[];
+          if (filenames) {
+            selected = filenames;
+          } else {
+            const matcher = globToRegExp(pattern!);
+            const entries = await fs.readdir(sourceDir, { withFileTypes: true });
+            selected = entries
+              .filter(entry => entry.isFile() && !entry.name.startsWith('.') && matcher.test(entry.name))
+              .map(entry => entry.name)
+              .sort();
+            if (selected.length === 0) {
+              throw new Error(`No files match pattern '${pattern}'`);
+            }
+          }
+          
+          const results = [];
+          for (const filename of selected) {
+            const fromKey = imageKey(from_collection, filename);
+            const toKey = imageKey(to_collection || undefined, filename);
+            try {
+              const sourcePath = resolveInside(sourceDir, validatePlainFilename(filename));
+              const targetPath = resolveInside(targetDir, filename);
+              await fs.access(sourcePath).catch(() => {
+                throw new Error(`File ${fromKey} not found`);
+              });
+              await assertFileDoesNotExist(targetPath, toKey);
+              await fs.rename(sourcePath, targetPath);
+              noteResourceChange(sourcePath);
+              noteResourceChange(targetPath);
+              await updateCatalog(actualOutputDir, catalog => {
+                if (catalog[fromKey]) {
+                  catalog[toKey] = { ...catalog[fromKey], filename: toKey };
+                  delete catalog[fromKey];
+                }
+              });
+              results.push({ from: fromKey, to: toKey, status: "moved" });
+            } catch (error) {
+              results.push({ from: fromKey, status: "error", error: error instanceof Error ? error.message : 'Unknown error' });
+            }
+          }
+          const moved = results.filter(result => result.status === "moved").length;
+          
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  status: moved === results.length ? "success" : moved > 0 ? "partial" : "failed",
+                  message: `Moved ${moved} of ${results.length} images to ${to_collection || 'the output root'}`,
+                  collection: to_collection || undefined,
+                  results,
+                }, null, 2),
+              },
+            ],
+            isError: moved === 0,
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({ 
+                  error: `Organizing images failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+                  ...errorDetails(error)
+                }, null, 2),
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+
+      case "geocode": {
+        const validatedArgs = GeocodeSchema.parse(args);
+        const { address, limit } = validatedArgs;
+        
+        try {
+          const results = (await makeGeocodeRequest({ address })).slice(0, limit);
+          
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  status: results.length ? "OK" : "ZERO_RESULTS",
+                  geocoder: getGeocodingProvider().name,
+                  query: address,
+                  results,
+                }, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({ 
+                  error: `Geocoding failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+                  ...errorDetails(error)
+                }, null, 2),
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+
+      case "reverse_geocode": {
+        const validatedArgs = ReverseGeocodeSchema.parse(args);
+        const { lat_lng, limit } = validatedArgs;
+        
+        try {
+          const point = parseLatLng(lat_lng);
+          const results = (await makeGeocodeRequest({ point })).slice(0, limit).map(result => ({
+            ...result,
+            distance_meters: Math.round(distanceMeters(point, [result.location.lat, result.location.lng])),
+          }));
+          
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({
+                  status: results.length ? "OK" : "ZERO_RESULTS",
+                  geocoder: getGeocodingProvider().name,
+                  query: lat_lng,
+                  results,
                 }, null, 2),
               },
             ],
@@ -514,7 +5658,8 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               {
                 type: "text",
                 text: JSON.stringify({ 
-                  error: `Street View image fetch failed: ${error instanceof Error ? error.message : 'Unknown error'}` 
+                  error: `Reverse geocoding failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+                  ...errorDetails(error)
                 }, null, 2),
               },
             ],
@@ -523,46 +5668,66 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         }
       }
 
-      case "get_metadata": {
-        const validatedArgs = GetMetadataSchema.parse(args);
-        const { location, lat_lng, pano_id, radius, source } = validatedArgs;
+      case "usage_report": {
+        const validatedArgs = UsageReportSchema.parse(args ?? {});
+        const { days } = validatedArgs;
         
         try {
-          // Build request parameters
-          const params: Record<string, any> = {
-            radius,
-            source,
-          };
+          const usage = await loadUsageLog();
+          const now = new Date();
+          const today = sumUsage(usage, now.toISOString().slice(0, 10));
+          const month = sumUsage(usage, now.toISOString().slice(0, 7));
           
-          // Set location parameter
-          if (location) {
-            params.location = location;
-          } else if (lat_lng) {
-            const [lat, lng] = parseLatLng(lat_lng);
-            params.location = `${lat},${lng}`;
-          } else if (pano_id) {
-            params.pano = pano_id;
-            delete params.radius; // Not applicable for pano_id
+          // Daily totals and per-tool breakdown over the requested window
+          const daily = [];
+          const byTool: Record<string, UsageCounters> = {};
+          for (let offset = days - 1; offset >= 0; offset--) {
+            const day = new Date(now.getTime() - offset * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+            const entry = usage.days[day];
+            if (!entry) {
+              continue;
+            }
+            daily.push({ date: day, ...formatUsage(entry.total) });
+            for (const [tool, counters] of Object.entries(entry.tools)) {
+              const total = byTool[tool] ??= emptyUsageCounters();
+              total.image += counters.image;
+              total.metadata += counters.metadata;
+              total.geocode += counters.geocode;
+              total.cache_hits += counters.cache_hits;
+              total.cost += counters.cost;
+            }
           }
-          
-          // Fetch metadata
-          const metadata = await makeMetadataRequest(METADATA_URL, params);
+          const remaining = (limit: number, used: number) => limit > 0 ? Math.max(0, Math.round((limit - used) * 10000) / 10000) : undefined;
           
           return {
             content: [
               {
                 type: "text",
                 text: JSON.stringify({
-                  status: metadata.status,
-                  copyright: metadata.copyright,
-                  date: metadata.date,
-                  pano_id: metadata.pano_id,
-                  location: metadata.location,
-                  query: {
-                    location: location || lat_lng || pano_id,
-                    radius: pano_id ? undefined : radius,
-                    source
-                  }
+                  providers: {
+                    imagery: getImageryProvider().name,
+                    geocoder: getGeocodingProvider().name,
+                  },
+                  today: formatUsage(today),
+                  this_month: formatUsage(month),
+                  limits: {
+                    rate_limit_per_second: RATE_LIMIT_PER_SECOND || undefined,
+                    daily_budget: DAILY_BUDGET || undefined,
+                    daily_budget_remaining: remaining(DAILY_BUDGET, today.cost),
+                    monthly_budget: MONTHLY_BUDGET || undefined,
+                    monthly_budget_remaining: remaining(MONTHLY_BUDGET, month.cost),
+                    daily_request_limit: DAILY_REQUEST_LIMIT || undefined,
+                    daily_requests_remaining: remaining(DAILY_REQUEST_LIMIT, today.image + today.metadata + today.geocode),
+                  },
+                  prices_per_1000: PRICE_PER_1000,
+                  window_days: days,
+                  by_tool: Object.fromEntries(
+                    Object.entries(byTool)
+                      .sort(([, a], [, b]) => b.cost - a.cost || (b.image + b.metadata + b.geocode) - (a.image + a.metadata + a.geocode))
+                      .map(([tool, counters]) => [tool, formatUsage(counters)])
+                  ),
+                  daily,
+                  usage_file: USAGE_FILE,
                 }, null, 2),
               },
             ],
@@ -573,7 +5738,8 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               {
                 type: "text",
                 text: JSON.stringify({ 
-                  error: `Metadata fetch failed: ${error instanceof Error ? error.message : 'Unknown error'}` 
+                  error: `Usage report failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+                  ...errorDetails(error)
                 }, null, 2),
               },
             ],
@@ -582,73 +5748,33 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         }
       }
 
-      case "create_html_page": {
-        const validatedArgs = CreateHtmlPageSchema.parse(args);
-        const { filename, title, html_elements } = validatedArgs;
+      case "analyze_image": {
+        const validatedArgs = AnalyzeImageSchema.parse(args);
+        const { filename, collection, palette_size } = validatedArgs;
         
         try {
-          // Ensure HTML directory exists with fallback handling
-          const actualHtmlDir = await ensureDirectoryExists(HTML_DIR);
-          
-          // Ensure filename has .html extension
-          const htmlFilename = filename.endsWith('.html') ? filename : `${filename}.html`;
-          const filePath = join(actualHtmlDir, htmlFilename);
-          
-          // Check if file already exists
-          try {
-            await fs.access(filePath);
-            throw new Error(`File ${htmlFilename} already exists`);
-          } catch (error) {
-            // File doesn't exist, which is what we want
-            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
-              throw error;
-            }
-          }
-          
-          // Combine HTML elements
-          const content = html_elements.join('\n');
+          const actualOutputDir = await ensureDirectoryExists(outputDirectory());
+          const folder = collection ? resolveInside(actualOutputDir, validateCollectionName(collection)) : actualOutputDir;
+          const filePath = resolveInside(folder, validatePlainFilename(filename));
+          const key = imageKey(collection, filename);
           
-          // HTML template
-          const htmlTemplate = `<!DOCTYPE html>
-<html lang="en">
-<head>
-    <meta charset="UTF-8">
-    <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>${title}</title>
-    <style>
-        body {
-            font-family: Arial, sans-serif;
-            line-height: 1.6;
-            max-width: 800px;
-            margin: 0 auto;
-            padding: 20px;
-            color: #333;
-        }
-        img {
-            max-width: 100%;
-            height: auto;
-            border-radius: 5px;
-            margin: 20px 0;
-        }
-        h1, h2, h3 {
-            color: #2c3e50;
-        }
-        .location {
-            font-weight: bold;
-            margin-bottom: 5px;
-        }
-        .description {
-            margin-bottom: 30px;
-        }
-    </style>
-</head>
-<body>
-${content}
-</body>
-</html>`;
+          const stats = await fs.stat(filePath).catch(() => {
+            throw new Error(`File ${key} not found`);
+          });
+          const analysis: ImageAnalysis = {
+            analyzed_at: new Date().toISOString(),
+            ...await analyzeImagePixels(filePath, palette_size),
+          };
           
-          // Write to file
-          await fs.writeFile(filePath, htmlTemplate, 'utf-8');
+          // Images saved outside the server get a minimal record to hold the analysis
+          let record: ImageRecord | undefined;
+          await updateCatalog(actualOutputDir, catalog => {
+            record = {
+              ...(catalog[key] ?? { filename: key, saved_at: stats.mtime.toISOString(), tool: 'unknown', parameters: {} }),
+              analysis,
+            };
+            catalog[key] = record;
+          });
           
           return {
             content: [
@@ -656,11 +5782,12 @@ ${content}
                 type: "text",
                 text: JSON.stringify({
                   status: "success",
-                  message: `HTML page created successfully`,
-                  filename: htmlFilename,
+                  filename: key,
                   path: filePath,
-                  title,
-                  elements_count: html_elements.length
+                  pano_id: record?.pano_id,
+                  date: record?.date,
+                  location: record?.location,
+                  analysis,
                 }, null, 2),
               },
             ],
@@ -671,7 +5798,8 @@ ${content}
               {
                 type: "text",
                 text: JSON.stringify({ 
-                  error: `HTML page creation failed: ${error instanceof Error ? error.message : 'Unknown error'}` 
+                  error: `Image analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+                  ...errorDetails(error)
                 }, null, 2),
               },
             ],
@@ -680,54 +5808,41 @@ ${content}
         }
       }
 
-      case "list_saved_images": {
+      case "get_config": {
+        GetConfigSchema.parse(args ?? {});
+        
         try {
-          // Ensure output directory exists with fallback handling
-          const actualOutputDir = await ensureDirectoryExists(OUTPUT_DIR);
-          
-          // Read directory contents
-          const files = await fs.readdir(actualOutputDir);
-          const imageExtensions = ['.jpg', '.jpeg', '.png', '.gif', '.bmp', '.webp'];
-          const imageFiles = files.filter(file => 
-            imageExtensions.some(ext => file.toLowerCase().endsWith(ext))
-          );
-          
-          // Get file stats for each image
-          const imageInfo = await Promise.all(
-            imageFiles.map(async (file) => {
-              const filePath = join(actualOutputDir, file);
-              const stats = await fs.stat(filePath);
-              
-              try {
-                const metadata = await sharp(filePath).metadata();
-                return {
-                  filename: file,
-                  size: `${Math.round(stats.size / 1024)}KB`,
-                  dimensions: `${metadata.width}x${metadata.height}`,
-                  format: metadata.format,
-                  created: stats.birthtime.toISOString(),
-                  modified: stats.mtime.toISOString(),
-                };
-              } catch {
-                // Fallback if Sharp can't read the file
-                return {
-                  filename: file,
-                  size: `${Math.round(stats.size / 1024)}KB`,
-                  created: stats.birthtime.toISOString(),
-                  modified: stats.mtime.toISOString(),
-                };
-              }
+          // Secrets are reported as set or unset, never echoed back
+          const settings = Object.fromEntries(
+            (Object.entries(SETTING_DEFINITIONS) as [SettingName, SettingDefinition][]).map(([name, definition]) => {
+              const value = SETTINGS[name];
+              return [name, {
+                value: definition.secret ? (value ? '[set]' : null) : value ?? null,
+                source: SETTING_SOURCES[name],
+                env: definition.env,
+              }];
             })
           );
+          const { tools } = await listTools();
           
           return {
             content: [
               {
                 type: "text",
                 text: JSON.stringify({
-                  output_directory: actualOutputDir,
-                  total_images: imageInfo.length,
-                  images: imageInfo.sort((a, b) => b.modified.localeCompare(a.modified)) // Sort by most recent first
+                  config_file: CONFIG_FILE ?? null,
+                  providers: {
+                    imagery: getImageryProvider().name,
+                    geocoder: getGeocodingProvider().name,
+                  },
+                  directories: {
+                    output: await ensureDirectoryExists(outputDirectory()),
+                    html: await ensureDirectoryExists(htmlDirectory()),
+                    cache: CACHE_ENABLED ? CACHE_DIR : null,
+                  },
+                  transport: HTTP_MODE ? 'http' : 'stdio',
+                  enabled_tools: tools.map(tool => tool.name),
+                  settings,
                 }, null, 2),
               },
             ],
@@ -738,7 +5853,8 @@ ${content}
               {
                 type: "text",
                 text: JSON.stringify({ 
-                  error: `Failed to list saved images: ${error instanceof Error ? error.message : 'Unknown error'}` 
+                  error: `Config report failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+                  ...errorDetails(error)
                 }, null, 2),
               },
             ],
@@ -761,9 +5877,484 @@ ${content}
       isError: true,
     };
   }
-});
+}
+
+// Saved files are exposed as resources: streetview://images/<path> for the output
+// directory and streetview://html/<path> for the HTML directory
+type ResourceRoot = 'images' | 'html';
+
+const RESOURCE_MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.bmp': 'image/bmp',
+  '.webp': 'image/webp',
+  '.avif': 'image/avif',
+  '.html': 'text/html',
+  '.json': 'application/json',
+  '.geojson': 'application/geo+json',
+  '.zip': 'application/zip',
+};
+const TEXT_MIME_TYPES = new Set(['text/html', 'application/json', 'application/geo+json']);
+
+function resourceMimeType(file: string): string {
+  return RESOURCE_MIME_TYPES[extname(file).toLowerCase()] ?? 'application/octet-stream';
+}
+
+async function resourceDirectories(): Promise<Record<ResourceRoot, string>> {
+  return {
+    images: await ensureDirectoryExists(outputDirectory()),
+    html: await ensureDirectoryExists(htmlDirectory()),
+  };
+}
+
+function resourceUri(root: ResourceRoot, relativePath: string): string {
+  return `streetview://${root}/${relativePath.split(/[\\/]/).map(encodeURIComponent).join('/')}`;
+}
+
+// Files below a directory as '/'-separated relative paths, skipping hidden files such as the catalog
+async function listResourceFiles(dir: string, prefix = ''): Promise<string[]> {
+  const entries = await fs.readdir(join(dir, prefix), { withFileTypes: true }).catch(() => []);
+  const files: string[] = [];
+  for (const entry of entries) {
+    if (entry.name.startsWith('.')) {
+      continue;
+    }
+    const path = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      files.push(...await listResourceFiles(dir, path));
+    } else if (entry.isFile()) {
+      files.push(path);
+    }
+  }
+  return files.sort();
+}
+
+async function listResources() {
+  const directories = await resourceDirectories();
+  const resources = [];
+  for (const root of Object.keys(directories) as ResourceRoot[]) {
+    for (const file of await listResourceFiles(directories[root])) {
+      const stats = await fs.stat(join(directories[root], file));
+      resources.push({
+        uri: resourceUri(root, file),
+        name: `${root}/${file}`,
+        mimeType: resourceMimeType(file),
+        size: stats.size,
+      });
+    }
+  }
+  return { resources };
+}
+
+async function readResource(uri: string) {
+  const match = /^streetview:\/\/(images|html)\/(.+)$/.exec(uri);
+  if (!match) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown resource URI: ${uri}`);
+  }
+  const root = match[1] as ResourceRoot;
+  let filePath: string;
+  try {
+    const segments = match[2].split('/').map(decodeURIComponent);
+    if (segments.some(segment => segment.startsWith('.') && segment !== '..')) {
+      throw new Error('Hidden files are not resources');
+    }
+    filePath = resolveInside((await resourceDirectories())[root], ...segments);
+  } catch (error) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid resource URI ${uri}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  let data: Buffer;
+  try {
+    data = await fs.readFile(filePath);
+  } catch {
+    throw new McpError(ErrorCode.InvalidParams, `Resource not found: ${uri}`);
+  }
+  const mimeType = resourceMimeType(filePath);
+  return {
+    contents: [TEXT_MIME_TYPES.has(mimeType)
+      ? { uri, mimeType, text: data.toString('utf-8') }
+      : { uri, mimeType, blob: data.toString('base64') }],
+  };
+}
+
+// Tell the client which saved files a tool call changed
+async function notifyResourceChanges(server: Server, changedFiles: Set<string>, subscriptions: Set<string>) {
+  const directories = await resourceDirectories();
+  for (const file of changedFiles) {
+    for (const root of Object.keys(directories) as ResourceRoot[]) {
+      const path = relative(resolve(directories[root]), file);
+      if (!path || path.startsWith('..') || isAbsolute(path)) {
+        continue;
+      }
+      const uri = resourceUri(root, path);
+      if (subscriptions.has(uri)) {
+        await server.sendResourceUpdated({ uri });
+      }
+    }
+  }
+  await server.sendResourceListChanged();
+}
+
+// Prompt templates for common workflows; each one spells out which tools to chain and how
+interface WorkflowPrompt {
+  name: string;
+  description: string;
+  arguments: { name: string; description: string; required?: boolean }[];
+  render: (args: Record<string, string>) => string;
+}
+
+// Lowercase name fragment for generated filenames and collections
+function promptSlug(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 40) || 'streetview';
+}
+
+const WORKFLOW_PROMPTS: WorkflowPrompt[] = [
+  {
+    name: "neighborhood_tour",
+    description: "Build an HTML virtual tour of a neighborhood from a handful of Street View stops",
+    arguments: [
+      { name: "neighborhood", description: "Neighborhood or area to tour (e.g., 'Le Marais, Paris')", required: true },
+      { name: "stops", description: "Number of stops (default: 6)" },
+      { name: "radius", description: "Search radius around the neighborhood center in meters (default: 500)" },
+    ],
+    render: (args) => {
+      const slug = promptSlug(args.neighborhood);
+      const stops = args.stops || '6';
+      return [
+        `Create a virtual tour of ${args.neighborhood} with ${stops} stops using the Street View tools.`,
+        '',
+        `1. Call \`geocode\` with address "${args.neighborhood}" and use the first result as the center.`,
+        `2. Call \`probe_coverage\` with center set to that "lat,lng", radius ${args.radius || '500'} and spacing 100 to find panoramas. Pick ${stops} covered points that are spread across the area and prefer recent capture dates.`,
+        `3. For each point, call \`get_street_view\` with its pano_id, collection "${slug}", annotate true and a heading that faces along the street or toward a landmark. Keep the returned filename, date, location and address.`,
+        `4. Call \`create_tour\` with filename "${slug}_tour.html", title "${args.neighborhood}", a short intro and one stop per image. Set each stop's image to "${slug}/<filename>", give it a descriptive title and description, and fill in lat, lng, heading and pano_date from the get_street_view results.`,
+        '',
+        'Finish with the tour filename and a one-line summary of each stop.',
+      ].join('\n');
+    },
+  },
+  {
+    name: "inspect_property",
+    description: "Capture and describe the street frontage of a property",
+    arguments: [
+      { name: "address", description: "Address of the property", required: true },
+      { name: "focus", description: "What to look for (e.g., 'roof condition', 'signage', 'accessibility')" },
+    ],
+    render: (args) => {
+      const slug = promptSlug(args.address);
+      return [
+        `Inspect the street frontage of ${args.address}${args.focus ? `, paying particular attention to ${args.focus}` : ''}.`,
+        '',
+        `1. Call \`geocode\` with address "${args.address}" to get the building's coordinates.`,
+        `2. Call \`get_metadata\` with location "${args.address}" to confirm imagery exists and note the capture date. If the status is not OK, stop and report it.`,
+        `3. Call \`get_street_view\` with location "${args.address}", look_at { "lat_lng": "<building lat,lng>", "height": 8 }, collection "${slug}", size "640x640" and annotate true for a straight-on view of the facade.`,
+        `4. Call \`get_street_view\` twice more with the same location and collection, setting heading to the computed look_at heading minus 35 and plus 35, wrapped into 0-360 (add 360 to a negative result, subtract 360 from a result above 360), for oblique views of each side.`,
+        `5. Call \`compare_images\` with filename "${slug}_frontage.jpg", the three images (as "${slug}/<filename>") and mode "side_by_side".`,
+        '',
+        'Describe what is visible: building type, entrances, condition, and anything relevant to the focus above. Mention the imagery date so the reader knows how current it is.',
+      ].join('\n');
+    },
+  },
+  {
+    name: "compare_over_time",
+    description: "Show how a location has changed across historical Street View captures",
+    arguments: [
+      { name: "location", description: "Address or 'lat,lng' to compare", required: true },
+      { name: "heading", description: "Compass heading to face in every capture (default: 0)" },
+    ],
+    render: (args) => {
+      const slug = promptSlug(args.location);
+      const place = /^-?\d+(\.\d+)?,\s*-?\d+(\.\d+)?$/.test(args.location.trim())
+        ? `lat_lng "${args.location}"`
+        : `location "${args.location}"`;
+      return [
+        `Show how ${args.location} has changed over time.`,
+        '',
+        `1. Call \`get_pano_history\` with ${place}, fetch_images true, filename_prefix "${slug}" and heading ${args.heading || '0'}. This saves one image per capture date.`,
+        `2. If fewer than two dates are found, stop and report the single date that is available.`,
+        `3. Call \`compare_images\` with filename "${slug}_timeline.jpg", mode "grid" and all of the saved images in date order.`,
+        `4. Call \`compare_images\` again with filename "${slug}_diff.jpg", mode "diff" and only the oldest and newest images to highlight what changed.`,
+        '',
+        'Summarize the visible changes between captures (construction, storefronts, vegetation, road markings), citing the dates.',
+      ].join('\n');
+    },
+  },
+  {
+    name: "walk_route",
+    description: "Walk a route between two places as a Street View image sequence and animation",
+    arguments: [
+      { name: "start", description: "Starting address or 'lat,lng'", required: true },
+      { name: "end", description: "Destination address or 'lat,lng'", required: true },
+      { name: "interval", description: "Distance between frames in meters (default: 25)" },
+    ],
+    render: (args) => {
+      const slug = promptSlug(`${args.start}_to_${args.end}`);
+      return [
+        `Walk the route from ${args.start} to ${args.end} using Street View.`,
+        '',
+        `1. Call \`create_route_tour\` with name "${slug}", start "${args.start}", end "${args.end}" and interval ${args.interval || '25'}. Frames are saved as "${slug}_001.jpg", "${slug}_002.jpg" and so on, each facing the next point.`,
+        `2. Call \`export_animation\` with filename "${slug}.gif", pattern "${slug}_*.jpg" and delay 400 to turn the frames into an animation.`,
+        `3. Call \`create_tour\` with filename "${slug}_tour.html", title "${args.start} to ${args.end}", a short intro describing the route and one stop for every fifth frame. Set each stop's image to the frame filename, give it a descriptive title, and fill in lat, lng, heading and pano_date from the frame's location, heading and date in the create_route_tour result.`,
+        '',
+        'Report the number of frames and any notable sights along the way.',
+      ].join('\n');
+    },
+  },
+];
+
+async function listPrompts() {
+  return {
+    prompts: WORKFLOW_PROMPTS.map(({ name, description, arguments: promptArguments }) => ({
+      name,
+      description,
+      arguments: promptArguments,
+    })),
+  };
+}
+
+async function getPrompt(name: string, args: Record<string, string> = {}) {
+  const prompt = WORKFLOW_PROMPTS.find(candidate => candidate.name === name);
+  if (!prompt) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+  const missing = prompt.arguments.filter(argument => argument.required && !args[argument.name]?.trim());
+  if (missing.length > 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Missing required arguments for ${name}: ${missing.map(argument => argument.name).join(', ')}`);
+  }
+  return {
+    description: prompt.description,
+    messages: [{
+      role: "user" as const,
+      content: { type: "text" as const, text: prompt.render(args) },
+    }],
+  };
+}
+
+// Create an MCP server with the tool handlers; sessions may place files in their own directories
+function createMcpServer(directories: { outputDir?: string; htmlDir?: string } = {}): Server {
+  const server = new Server({
+    name: "street-view-node-mcp",
+    version: "1.0.0",
+  }, {
+    capabilities: {
+      tools: {},
+      resources: { subscribe: true, listChanged: true },
+      prompts: {},
+    },
+  });
+  const subscriptions = new Set<string>();
+
+  server.setRequestHandler(ListToolsRequestSchema, listTools);
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+    // Attribute API usage to the tool being called
+    const changedFiles = new Set<string>();
+    const result = await requestContext.run({ tool: name, ...directories, changedFiles }, () => handleToolCall(name, args));
+    if (changedFiles.size > 0) {
+      try {
+        await requestContext.run({ tool: name, ...directories }, () => notifyResourceChanges(server, changedFiles, subscriptions));
+      } catch (error) {
+        log('warn', 'Failed to send resource notifications', { error: error instanceof Error ? error.message : error });
+      }
+    }
+    return result;
+  });
+  server.setRequestHandler(ListResourcesRequestSchema, () =>
+    requestContext.run({ tool: 'resources/list', ...directories }, listResources));
+  server.setRequestHandler(ReadResourceRequestSchema, (request) =>
+    requestContext.run({ tool: 'resources/read', ...directories }, () => readResource(request.params.uri)));
+  server.setRequestHandler(ListPromptsRequestSchema, listPrompts);
+  server.setRequestHandler(GetPromptRequestSchema, (request) =>
+    getPrompt(request.params.name, request.params.arguments));
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+  return server;
+}
+
+// Constant-time check of an 'Authorization: Bearer <token>' header
+function isAuthorized(header: string | undefined, token: string): boolean {
+  const match = /^Bearer\s+(.+)$/i.exec(header ?? '');
+  if (!match) {
+    return false;
+  }
+  const given = createHash('sha256').update(match[1].trim()).digest();
+  const expected = createHash('sha256').update(token).digest();
+  return timingSafeEqual(given, expected);
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+// HTTP failure with the status code to answer with
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const tooLarge = () => new HttpError(413, `Request body exceeds ${HTTP_MAX_BODY_BYTES / (1024 * 1024)} MB`);
+  if (Number(req.headers['content-length'] ?? 0) > HTTP_MAX_BODY_BYTES) {
+    throw tooLarge();
+  }
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > HTTP_MAX_BODY_BYTES) {
+      throw tooLarge();
+    }
+    chunks.push(chunk as Buffer);
+  }
+  try {
+    return chunks.length ? JSON.parse(Buffer.concat(chunks).toString('utf-8')) : undefined;
+  } catch {
+    throw new HttpError(400, 'Invalid JSON body');
+  }
+}
+
+// Serve MCP over streamable HTTP (with SSE streams) at /mcp, one server and working directory per session
+async function startHttpServer(): Promise<void> {
+  const loopback = ['127.0.0.1', 'localhost', '::1'].includes(HTTP_HOST);
+  if (!HTTP_TOKEN && !loopback) {
+    throw new Error(`STREET_VIEW_HTTP_TOKEN must be set to listen on ${HTTP_HOST}; only loopback hosts may run without auth`);
+  }
+
+  // Open sessions and when they last saw a request; idle ones are closed by the sweep below
+  const sessions = new Map<string, { transport: StreamableHTTPServerTransport; lastActivity: number }>();
+  const jsonRpcError = (message: string) => ({ jsonrpc: '2.0', error: { code: -32000, message }, id: null });
+  // On loopback, requests must name the server itself, so web pages cannot reach it through DNS rebinding.
+  // Filled in once the port is bound
+  const allowedHosts = new Set<string>();
+  const allowedOrigins = new Set<string>();
+
+  const httpServer = createHttpServer(async (req, res) => {
+    try {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      if (url.pathname === '/health') {
+        sendJson(res, 200, { status: 'ok', sessions: sessions.size });
+        return;
+      }
+      if (url.pathname !== '/mcp') {
+        sendJson(res, 404, { error: 'Not found' });
+        return;
+      }
+      if (loopback && !allowedHosts.has((req.headers.host ?? '').toLowerCase())) {
+        sendJson(res, 403, jsonRpcError('Invalid Host header'));
+        return;
+      }
+      if (loopback && req.headers.origin !== undefined && !allowedOrigins.has(req.headers.origin.toLowerCase())) {
+        sendJson(res, 403, jsonRpcError('Invalid Origin header'));
+        return;
+      }
+      if (HTTP_TOKEN && !isAuthorized(req.headers.authorization, HTTP_TOKEN)) {
+        sendJson(res, 401, jsonRpcError('Unauthorized'), { 'WWW-Authenticate': 'Bearer' });
+        return;
+      }
+
+      const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+      const sessionId = req.headers['mcp-session-id'];
+      const existing = typeof sessionId === 'string' ? sessions.get(sessionId) : undefined;
+      if (existing) {
+        existing.lastActivity = Date.now();
+        await existing.transport.handleRequest(req, res, body);
+        return;
+      }
+      if (sessionId) {
+        sendJson(res, 404, jsonRpcError('Session not found'));
+        return;
+      }
+      if (!isInitializeRequest(body)) {
+        sendJson(res, 400, jsonRpcError('No session: send an initialize request first'));
+        return;
+      }
+
+      // New session with its own server instance and working directory
+      const newSessionId = randomUUID();
+      const sessionDir = join(SESSION_ROOT, newSessionId);
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => newSessionId,
+        onsessioninitialized: (id) => {
+          sessions.set(id, { transport, lastActivity: Date.now() });
+          log('info', 'HTTP session started', { sessionId: id, directory: sessionDir });
+        },
+      });
+      // Closed by the client (DELETE /mcp) or by the idle sweep; the session's files go with it
+      transport.onclose = () => {
+        sessions.delete(newSessionId);
+        fs.rm(sessionDir, { recursive: true, force: true }).catch(error => {
+          log('warn', 'Failed to remove session directory', { directory: sessionDir, error: error instanceof Error ? error.message : error });
+        });
+        log('info', 'HTTP session closed', { sessionId: newSessionId });
+      };
+      await createMcpServer({ outputDir: join(sessionDir, 'output'), htmlDir: join(sessionDir, 'html') }).connect(transport);
+      await transport.handleRequest(req, res, body);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        if (!res.headersSent) {
+          sendJson(res, error.status, jsonRpcError(error.message), { Connection: 'close' });
+        }
+        return;
+      }
+      log('error', 'HTTP request failed', { error: error instanceof Error ? error.message : error });
+      if (!res.headersSent) {
+        sendJson(res, 500, jsonRpcError('Internal server error'));
+      }
+    }
+  });
+
+  if (SESSION_IDLE_TIMEOUT_MS > 0) {
+    const sweep = setInterval(() => {
+      const cutoff = Date.now() - SESSION_IDLE_TIMEOUT_MS;
+      for (const [id, session] of sessions) {
+        if (session.lastActivity < cutoff) {
+          log('info', 'Closing idle HTTP session', { sessionId: id });
+          session.transport.close().catch(() => undefined);
+        }
+      }
+    }, Math.min(SESSION_IDLE_TIMEOUT_MS, 60 * 1000));
+    sweep.unref();
+  }
+
+  await new Promise<void>((resolveListen, rejectListen) => {
+    httpServer.once('error', rejectListen);
+    httpServer.listen(HTTP_PORT, HTTP_HOST, () => resolveListen());
+  });
+  const { port } = httpServer.address() as AddressInfo;
+  for (const host of ['localhost', '127.0.0.1', '[::1]']) {
+    allowedHosts.add(`${host}:${port}`);
+    allowedOrigins.add(`http://${host}:${port}`);
+    if (port === 80) {
+      allowedHosts.add(host);
+      allowedOrigins.add(`http://${host}`);
+    }
+  }
+  log('info', 'Street View Explorer MCP Server listening over HTTP', {
+    url: `http://${HTTP_HOST}:${HTTP_PORT}/mcp`,
+    auth: HTTP_TOKEN ? 'bearer' : 'none',
+    sessionRoot: SESSION_ROOT,
+  });
+  console.error(`Street View Explorer MCP server listening on http://${HTTP_HOST}:${HTTP_PORT}/mcp`);
+}
 
 async function main() {
+  try {
+    initializeSettings();
+  } catch (error) {
+    log('error', 'Invalid configuration', { error: error instanceof Error ? error.message : error });
+    console.error(`Configuration error: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+
   try {
     log('info', 'Starting Street View Explorer MCP Server (DXT)', {
       version: '1.0.0',
@@ -772,13 +6363,31 @@ async function main() {
       platform: process.platform
     });
 
-    if (!GOOGLE_API_KEY) {
+    const provider = getImageryProvider();
+    log('info', 'Using imagery provider', { provider: provider.name, geocoder: getGeocodingProvider().name });
+    if (CONFIG_FILE) {
+      log('info', 'Loaded config file', { file: CONFIG_FILE });
+    }
+    if (SETTINGS.allowed_tools) {
+      const { tools } = await listTools();
+      const unknown = SETTINGS.allowed_tools.filter(name => !tools.some(tool => tool.name === name));
+      if (unknown.length > 0) {
+        log('warn', 'allowed_tools lists tools that do not exist', { tools: unknown });
+      }
+    }
+
+    if (provider.name === 'google' && !GOOGLE_API_KEY) {
       log('warn', 'GOOGLE_API_KEY not found in environment variables');
       console.error("Warning: GOOGLE_API_KEY not found. Please set your Google Maps API key in environment variables");
     }
 
+    if (HTTP_MODE) {
+      await startHttpServer();
+      return;
+    }
+
     const transport = new StdioServerTransport();
-    await server.connect(transport);
+    await createMcpServer().connect(transport);
     
     log('info', 'Street View Explorer MCP Server connected successfully');
     console.error("Street View Explorer MCP server running...");
@@ -788,28 +6397,63 @@ async function main() {
   }
 }
 
-// Enhanced error handling with graceful shutdown
-process.on('SIGINT', () => {
-  log('info', 'Received SIGINT, shutting down gracefully');
-  process.exit(0);
-});
+// Start only when run as the server, so the tests can import the helpers exported below.
+// Node resolves the main module through symlinks (npm bin links, npx shims) the same way, so compare as URLs
+function isEntryPoint(): boolean {
+  try {
+    return process.argv[1] !== undefined && pathToFileURL(realpathSync(process.argv[1])).href === import.meta.url;
+  } catch {
+    return false;
+  }
+}
 
-process.on('SIGTERM', () => {
-  log('info', 'Received SIGTERM, shutting down gracefully');
-  process.exit(0);
-});
+if (isEntryPoint()) {
+  // Enhanced error handling with graceful shutdown
+  process.on('exit', flushUsageLogSync);
 
-process.on('uncaughtException', (error) => {
-  log('error', 'Uncaught exception', { error: error.message, stack: error.stack });
-  process.exit(1);
-});
+  process.on('SIGINT', () => {
+    log('info', 'Received SIGINT, shutting down gracefully');
+    process.exit(0);
+  });
 
-process.on('unhandledRejection', (reason) => {
-  log('error', 'Unhandled rejection', { reason });
-  process.exit(1);
-});
+  process.on('SIGTERM', () => {
+    log('info', 'Received SIGTERM, shutting down gracefully');
+    process.exit(0);
+  });
+
+  process.on('uncaughtException', (error) => {
+    log('error', 'Uncaught exception', { error: error.message, stack: error.stack });
+    process.exit(1);
+  });
+
+  process.on('unhandledRejection', (reason) => {
+    log('error', 'Unhandled rejection', { reason });
+    process.exit(1);
+  });
+
+  main().catch((error) => {
+    log('error', 'Server startup failed', { error: error instanceof Error ? error.message : error });
+    process.exit(1);
+  });
+}
 
-main().catch((error) => {
-  log('error', 'Server startup failed', { error: error instanceof Error ? error.message : error });
-  process.exit(1);
-});
\ No newline at end of file
+export {
+  createMcpServer,
+  decodePolyline,
+  samplePath,
+  createFixtureProvider,
+  buildProbeGrid,
+  loadSettings,
+  applySettings,
+  governRequest,
+  StreetViewError,
+  errorFromHttpStatus,
+  errorFromApiStatus,
+  errorDetails,
+  normalizeCacheParams,
+  checkImageSource,
+  sanitizeHtml,
+  validatePlainFilename,
+  resolveInside,
+  resolveOutputTarget,
+};
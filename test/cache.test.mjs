@@ -0,0 +1,27 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeCacheParams } from '../build/index.js';
+
+test('normalizeCacheParams collapses whitespace and lowercases free-text locations', () => {
+  assert.deepEqual(
+    normalizeCacheParams({ location: '  Empire   State Building ', size: '600x400' }),
+    { location: 'empire state building', size: '600x400' }
+  );
+});
+
+test('normalizeCacheParams keeps the case of panorama IDs', () => {
+  assert.deepEqual(normalizeCacheParams({ pano: 'AbC_dEf' }), { pano: 'AbC_dEf' });
+});
+
+test('normalizeCacheParams drops the API key and unset values', () => {
+  assert.deepEqual(
+    normalizeCacheParams({ key: 'secret', return_error_code: true, heading: undefined, fov: 90 }),
+    { fov: 90 }
+  );
+});
+
+test('normalizeCacheParams gives the same key order regardless of input order', () => {
+  const first = normalizeCacheParams({ size: '600x400', location: 'a', heading: 90 });
+  const second = normalizeCacheParams({ heading: 90, location: 'A', size: '600x400' });
+  assert.equal(JSON.stringify(first), JSON.stringify(second));
+});
@@ -0,0 +1,24 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildProbeGrid } from '../build/index.js';
+
+test('buildProbeGrid covers a bounding box at the requested spacing', () => {
+  // About 278 m by 213 m at this latitude: 3 rows of 3 points at 100 m spacing
+  const grid = buildProbeGrid({ bbox: [40, -74, 40.0025, -73.9975] }, 100, 400);
+  assert.equal(grid.length, 9);
+});
+
+test('buildProbeGrid keeps only points inside a circle', () => {
+  // A 5 x 5 grid over the 220 m square, of which the corners and edges fall outside
+  const grid = buildProbeGrid({ center: [40, -74], radius: 110 }, 50, 400);
+  assert.equal(grid.length, 15);
+});
+
+test('buildProbeGrid rejects oversized grids before building them', () => {
+  const start = Date.now();
+  assert.throws(
+    () => buildProbeGrid({ bbox: [0, 0, 1, 1] }, 5, 2500),
+    /more than max_points \(2500\)/
+  );
+  assert.ok(Date.now() - start < 1000, `took ${Date.now() - start} ms`);
+});
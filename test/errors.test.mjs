@@ -0,0 +1,38 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { StreetViewError, errorDetails, errorFromApiStatus, errorFromHttpStatus } from '../build/index.js';
+
+const fields = (error) => ({ code: error.code, retryable: error.retryable, status: error.status });
+
+test('errorFromHttpStatus maps HTTP statuses to error codes', () => {
+  assert.deepEqual(fields(errorFromHttpStatus(404, 'x')), { code: 'NO_IMAGERY', retryable: false, status: 404 });
+  assert.deepEqual(fields(errorFromHttpStatus(429, 'x')), { code: 'QUOTA_EXCEEDED', retryable: true, status: 429 });
+  assert.deepEqual(fields(errorFromHttpStatus(401, 'x')), { code: 'REQUEST_DENIED', retryable: false, status: 401 });
+  assert.deepEqual(fields(errorFromHttpStatus(403, 'x')), { code: 'REQUEST_DENIED', retryable: false, status: 403 });
+  assert.deepEqual(fields(errorFromHttpStatus(503, 'x')), { code: 'UPSTREAM_ERROR', retryable: true, status: 503 });
+  assert.deepEqual(fields(errorFromHttpStatus(400, 'x')), { code: 'INVALID_REQUEST', retryable: false, status: 400 });
+});
+
+test('errorFromApiStatus maps API body statuses to error codes', () => {
+  assert.equal(errorFromApiStatus('ZERO_RESULTS', 'x').code, 'NO_IMAGERY');
+  assert.equal(errorFromApiStatus('NOT_FOUND', 'x').code, 'NO_IMAGERY');
+  assert.equal(errorFromApiStatus('REQUEST_DENIED', 'x').code, 'REQUEST_DENIED');
+  assert.equal(errorFromApiStatus('INVALID_REQUEST', 'x').code, 'INVALID_REQUEST');
+});
+
+test('errorFromApiStatus retries per-second quota errors but not daily ones', () => {
+  assert.deepEqual(fields(errorFromApiStatus('OVER_QUERY_LIMIT', 'x')), { code: 'QUOTA_EXCEEDED', retryable: true, status: 'OVER_QUERY_LIMIT' });
+  assert.deepEqual(fields(errorFromApiStatus('OVER_DAILY_LIMIT', 'x')), { code: 'QUOTA_EXCEEDED', retryable: false, status: 'OVER_DAILY_LIMIT' });
+});
+
+test('errorFromApiStatus treats unknown statuses as retryable upstream errors', () => {
+  assert.deepEqual(fields(errorFromApiStatus('UNKNOWN_ERROR', 'x')), { code: 'UPSTREAM_ERROR', retryable: true, status: 'UNKNOWN_ERROR' });
+});
+
+test('errorDetails exposes the code only for StreetViewError', () => {
+  const error = errorFromHttpStatus(429, 'Too many requests');
+  assert.ok(error instanceof StreetViewError);
+  assert.equal(error.message, 'Too many requests');
+  assert.deepEqual(errorDetails(error), { code: 'QUOTA_EXCEEDED', retryable: true, upstream_status: 429 });
+  assert.deepEqual(errorDetails(new Error('plain')), {});
+});
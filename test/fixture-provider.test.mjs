@@ -0,0 +1,79 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import sharp from 'sharp';
+import { createFixtureProvider } from '../build/index.js';
+
+let dir;
+let provider;
+
+const solid = (r, g, b) => sharp({ create: { width: 64, height: 64, channels: 3, background: { r, g, b } } }).jpeg().toBuffer();
+
+// Dominant channel of an image, to tell the solid-colored fixture images apart
+async function dominantChannel(buffer) {
+  const { channels } = await sharp(buffer).stats();
+  const means = channels.map(channel => channel.mean);
+  return ['red', 'green', 'blue'][means.indexOf(Math.max(...means))];
+}
+
+before(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'streetview-fixtures-'));
+  await mkdir(join(dir, 'metadata'));
+  await mkdir(join(dir, 'images'));
+  const panoramas = [
+    { status: 'OK', pano_id: 'A', date: '2020-06', location: { lat: 40.7, lng: -74 } },
+    { status: 'OK', pano_id: 'B', date: '2022-06', location: { lat: 40.7003, lng: -74 } },
+  ];
+  for (const metadata of panoramas) {
+    await writeFile(join(dir, 'metadata', `${metadata.pano_id}.json`), JSON.stringify(metadata));
+  }
+  await writeFile(join(dir, 'locations.json'), JSON.stringify({ 'Main St 1': 'B' }));
+  await writeFile(join(dir, 'images', 'A.jpg'), await solid(0, 255, 0));
+  await writeFile(join(dir, 'images', 'A_0.jpg'), await solid(255, 0, 0));
+  await writeFile(join(dir, 'images', 'A_180.jpg'), await solid(0, 0, 255));
+  await writeFile(join(dir, 'images', 'B.jpg'), await solid(0, 255, 0));
+  provider = createFixtureProvider(dir);
+});
+
+after(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+test('fixture provider snaps coordinates to the nearest panorama within the radius', async () => {
+  // 40.7001 is about 11 m from A and 22 m from B
+  const metadata = await provider.fetchMetadata({ location: '40.7001,-74', radius: 50 });
+  assert.equal(metadata.pano_id, 'A');
+  const closer = await provider.fetchMetadata({ location: '40.7002,-74', radius: 50 });
+  assert.equal(closer.pano_id, 'B');
+});
+
+test('fixture provider returns ZERO_RESULTS when nothing is within the radius', async () => {
+  assert.deepEqual(await provider.fetchMetadata({ location: '40.7001,-74', radius: 5 }), { status: 'ZERO_RESULTS' });
+  assert.deepEqual(await provider.fetchMetadata({ location: 'Nowhere Rd 9' }), { status: 'ZERO_RESULTS' });
+  assert.deepEqual(await provider.fetchMetadata({ pano: 'missing' }), { status: 'ZERO_RESULTS' });
+});
+
+test('fixture provider looks up addresses in locations.json case-insensitively', async () => {
+  const metadata = await provider.fetchMetadata({ location: '  main st 1 ' });
+  assert.equal(metadata.pano_id, 'B');
+  assert.equal(metadata.date, '2022-06');
+});
+
+test('fixture provider serves the per-heading image closest to the requested heading', async () => {
+  assert.equal(await dominantChannel(await provider.fetchImage({ pano: 'A', heading: 20 })), 'red');
+  assert.equal(await dominantChannel(await provider.fetchImage({ pano: 'A', heading: 170 })), 'blue');
+  assert.equal(await dominantChannel(await provider.fetchImage({ pano: 'A', heading: 350 })), 'red');
+});
+
+test('fixture provider falls back to the plain image and resizes to the requested size', async () => {
+  const image = await provider.fetchImage({ location: 'Main St 1', size: '120x80' });
+  assert.equal(await dominantChannel(image), 'green');
+  const { width, height } = await sharp(image).metadata();
+  assert.deepEqual([width, height], [120, 80]);
+});
+
+test('fixture provider fails image requests without imagery', async () => {
+  await assert.rejects(provider.fetchImage({ location: '10,10' }), { code: 'NO_IMAGERY' });
+});
@@ -0,0 +1,85 @@
+import { test, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { applySettings, governRequest, loadSettings } from '../build/index.js';
+
+let root;
+let dir;
+
+// Every test starts from an empty usage log of its own
+function configure(env = {}) {
+  Object.assign(process.env, {
+    STREET_VIEW_USAGE_FILE: join(dir, 'usage.json'),
+    STREET_VIEW_CACHE_DIR: join(dir, 'cache'),
+    STREET_VIEW_RATE_LIMIT: '0',
+    STREET_VIEW_IMAGE_PRICE: '10',
+    STREET_VIEW_DAILY_BUDGET: '0',
+    STREET_VIEW_MONTHLY_BUDGET: '0',
+    STREET_VIEW_DAILY_REQUEST_LIMIT: '0',
+    ...env,
+  });
+  applySettings(loadSettings());
+}
+
+before(async () => {
+  root = await mkdtemp(join(tmpdir(), 'streetview-usage-'));
+});
+
+// Removed only at the end, as pending counters are written to the previous file when the next test switches
+after(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(root, 'test-'));
+  configure();
+});
+
+test('governRequest stops image requests once the daily budget is spent', async () => {
+  configure({ STREET_VIEW_DAILY_BUDGET: '0.035' });
+  for (let i = 0; i < 3; i++) {
+    await governRequest('image', 'google');
+  }
+  await assert.rejects(governRequest('image', 'google'), { code: 'BUDGET_EXCEEDED', message: /Daily budget/ });
+});
+
+test('governRequest still allows free requests when the budget is spent', async () => {
+  configure({ STREET_VIEW_DAILY_BUDGET: '0.015' });
+  await governRequest('image', 'google');
+  await assert.rejects(governRequest('image', 'google'), { code: 'BUDGET_EXCEEDED' });
+  await governRequest('metadata', 'google');
+  await governRequest('image', 'fixture');
+});
+
+test('governRequest enforces the daily request limit across kinds', async () => {
+  configure({ STREET_VIEW_DAILY_REQUEST_LIMIT: '2' });
+  await governRequest('metadata', 'google');
+  await governRequest('image', 'fixture');
+  await assert.rejects(governRequest('metadata', 'google'), { code: 'BUDGET_EXCEEDED', message: /Daily request limit of 2/ });
+});
+
+test('governRequest checks the monthly budget', async () => {
+  configure({ STREET_VIEW_MONTHLY_BUDGET: '0.025' });
+  await governRequest('image', 'google');
+  await governRequest('image', 'google');
+  await assert.rejects(governRequest('image', 'google'), { code: 'BUDGET_EXCEEDED', message: /Monthly budget/ });
+});
+
+test('governRequest counts usage already recorded in the usage file', async () => {
+  const today = new Date().toISOString().slice(0, 10);
+  const total = { image: 3, metadata: 0, geocode: 0, cache_hits: 0, cost: 0.03 };
+  await writeFile(join(dir, 'recorded.json'), JSON.stringify({ days: { [today]: { total, tools: {} } } }));
+  configure({ STREET_VIEW_USAGE_FILE: join(dir, 'recorded.json'), STREET_VIEW_DAILY_REQUEST_LIMIT: '3' });
+  await assert.rejects(governRequest('metadata', 'google'), { code: 'BUDGET_EXCEEDED', message: /Daily request limit of 3/ });
+});
+
+test('governRequest spaces requests under the rate limit', async () => {
+  configure({ STREET_VIEW_RATE_LIMIT: '20' });
+  const start = Date.now();
+  for (let i = 0; i < 4; i++) {
+    await governRequest('metadata', 'google');
+  }
+  assert.ok(Date.now() - start >= 140, `took ${Date.now() - start} ms`);
+});
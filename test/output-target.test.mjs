@@ -0,0 +1,74 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { resolveInside, resolveOutputTarget, validatePlainFilename } from '../build/index.js';
+
+let dir;
+
+before(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'streetview-test-'));
+  await writeFile(join(dir, 'taken.jpg'), '');
+  await writeFile(join(dir, 'taken_2.jpg'), '');
+});
+
+after(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+test('validatePlainFilename rejects directories and traversal', () => {
+  assert.equal(validatePlainFilename('view.jpg'), 'view.jpg');
+  for (const name of ['../view.jpg', 'a/view.jpg', 'a\\view.jpg', '..', '.hidden', '/etc/passwd']) {
+    assert.throws(() => validatePlainFilename(name), /Invalid filename/, name);
+  }
+});
+
+test('resolveInside rejects absolute paths and escapes', () => {
+  assert.equal(resolveInside(dir, 'tours', 'a.jpg'), join(dir, 'tours', 'a.jpg'));
+  assert.throws(() => resolveInside(dir, '/etc/passwd'), /Absolute paths/);
+  assert.throws(() => resolveInside(dir, '..', 'outside.jpg'), /escapes/);
+  assert.throws(() => resolveInside(dir, 'tours/../../outside.jpg'), /escapes/);
+});
+
+test('resolveOutputTarget rejects unsafe filenames', async () => {
+  await assert.rejects(resolveOutputTarget(dir, '../escape.jpg', 'auto_suffix'), /Invalid filename/);
+});
+
+test('resolveOutputTarget fails on an existing file in error mode', async () => {
+  await assert.rejects(resolveOutputTarget(dir, 'taken.jpg', 'error'), /already exists/);
+});
+
+test('resolveOutputTarget keeps the name in overwrite mode', async () => {
+  const target = await resolveOutputTarget(dir, 'taken.jpg', 'overwrite');
+  try {
+    assert.equal(target.filename, 'taken.jpg');
+    assert.equal(target.path, join(dir, 'taken.jpg'));
+  } finally {
+    target.release();
+  }
+});
+
+test('resolveOutputTarget picks the next free suffix in auto_suffix mode', async () => {
+  const target = await resolveOutputTarget(dir, 'taken.jpg', 'auto_suffix');
+  try {
+    assert.equal(target.filename, 'taken_3.jpg');
+  } finally {
+    target.release();
+  }
+});
+
+test('resolveOutputTarget keeps concurrent writes apart until released', async () => {
+  const first = await resolveOutputTarget(dir, 'new.jpg', 'error');
+  try {
+    await assert.rejects(resolveOutputTarget(dir, 'new.jpg', 'overwrite'), /already being written/);
+    const second = await resolveOutputTarget(dir, 'new.jpg', 'auto_suffix');
+    assert.equal(second.filename, 'new_2.jpg');
+    second.release();
+  } finally {
+    first.release();
+  }
+  const again = await resolveOutputTarget(dir, 'new.jpg', 'error');
+  assert.equal(again.filename, 'new.jpg');
+  again.release();
+});
@@ -0,0 +1,110 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { access, mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import sharp from 'sharp';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { applySettings, createMcpServer, decodePolyline, loadSettings, samplePath } from '../build/index.js';
+
+let dir;
+let client;
+
+// Distance in meters between two [lat, lng] points on a north-south line
+const metersNorth = (a, b) => (b[0] - a[0]) * Math.PI / 180 * 6371000;
+
+before(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'streetview-route-'));
+  const fixtureDir = join(dir, 'fixtures');
+  await mkdir(join(fixtureDir, 'metadata'), { recursive: true });
+  await mkdir(join(fixtureDir, 'images'), { recursive: true });
+  const image = await sharp({ create: { width: 64, height: 64, channels: 3, background: { r: 90, g: 90, b: 90 } } }).jpeg().toBuffer();
+  // Four panoramas about 33 m apart along a street running north
+  for (const [index, lat] of [40.7, 40.7003, 40.7006, 40.7009].entries()) {
+    const pano_id = `R${index}`;
+    await writeFile(join(fixtureDir, 'metadata', `${pano_id}.json`), JSON.stringify({ status: 'OK', pano_id, date: `202${index}-05`, location: { lat, lng: -74 } }));
+    await writeFile(join(fixtureDir, 'images', `${pano_id}.jpg`), image);
+  }
+
+  Object.assign(process.env, {
+    STREET_VIEW_PROVIDER: 'fixture',
+    STREET_VIEW_FIXTURE_DIR: fixtureDir,
+    STREET_VIEW_CACHE: 'off',
+    STREET_VIEW_USAGE_FILE: join(dir, 'usage.json'),
+    STREET_VIEW_RATE_LIMIT: '0',
+  });
+  applySettings(loadSettings());
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await createMcpServer({ outputDir: join(dir, 'output'), htmlDir: join(dir, 'html') }).connect(serverTransport);
+  client = new Client({ name: 'route-test', version: '1.0.0' });
+  await client.connect(clientTransport);
+});
+
+after(async () => {
+  await client.close();
+  await rm(dir, { recursive: true, force: true });
+});
+
+async function callTool(name, args) {
+  const result = await client.callTool({ name, arguments: args });
+  return { isError: result.isError, body: JSON.parse(result.content.find(item => item.type === 'text').text) };
+}
+
+test('decodePolyline decodes the reference polyline', () => {
+  assert.deepEqual(decodePolyline('_p~iF~ps|U_ulLnnqC_mqNvxq`@'), [
+    [38.5, -120.2],
+    [40.7, -120.95],
+    [43.252, -126.453],
+  ]);
+});
+
+test('decodePolyline rejects truncated input', () => {
+  assert.throws(() => decodePolyline('_p~iF~ps|U_'), /Invalid encoded polyline/);
+});
+
+test('samplePath spaces samples at the interval and keeps both ends', () => {
+  const path = [[40.7, -74], [40.7005, -74], [40.7009, -74]];
+  const samples = samplePath(path, 30);
+  assert.deepEqual(samples[0], path[0]);
+  assert.deepEqual(samples.at(-1), path.at(-1));
+  // The route is about 100 m long, so samples land at 0, 30, 60 and 90 m, then at the end
+  assert.equal(samples.length, 5);
+  for (let i = 1; i < samples.length - 1; i++) {
+    assert.ok(Math.abs(metersNorth(samples[i - 1], samples[i]) - 30) < 0.01);
+  }
+  assert.ok(metersNorth(samples.at(-2), samples.at(-1)) < 30);
+});
+
+test('create_route_tour saves one frame per distinct panorama along the route', async () => {
+  const { isError, body } = await callTool('create_route_tour', {
+    name: 'walk',
+    polyline: '_flwF~btbMsD?',
+    interval: 30,
+  });
+  assert.ok(!isError, JSON.stringify(body));
+  assert.deepEqual(body.frames.map(frame => frame.pano_id), ['R0', 'R1', 'R2', 'R3']);
+  assert.deepEqual(body.frames[1].location, { lat: 40.7003, lng: -74 });
+  assert.equal(body.frames[1].date, '2021-05');
+  // Every frame faces north, towards the next panorama
+  assert.ok(body.frames.every(frame => frame.heading === 0));
+  for (const frame of body.frames) {
+    await access(join(dir, 'output', frame.filename));
+  }
+  const manifest = JSON.parse(await readFile(join(dir, 'output', 'walk_manifest.json'), 'utf-8'));
+  assert.equal(manifest.frames.length, 4);
+});
+
+test('create_route_tour stops at max_frames', async () => {
+  const { isError, body } = await callTool('create_route_tour', {
+    name: 'short',
+    start: '40.7,-74',
+    end: '40.7009,-74',
+    interval: 30,
+    max_frames: 2,
+  });
+  assert.ok(!isError, JSON.stringify(body));
+  assert.deepEqual(body.frames.map(frame => frame.filename), ['short_001.jpg', 'short_002.jpg']);
+  await assert.rejects(access(join(dir, 'output', 'short_003.jpg')));
+});
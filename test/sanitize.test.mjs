@@ -0,0 +1,75 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkImageSource, sanitizeHtml } from '../build/index.js';
+
+const noImages = new Map();
+
+test('sanitizeHtml drops scripts with their content', () => {
+  const { html, report } = sanitizeHtml('<p>Hello<script>alert(1)</script></p>', 'strict', noImages);
+  assert.equal(html, '<p>Hello</p>');
+  assert.deepEqual(report.removed_elements, { script: 1 });
+});
+
+test('sanitizeHtml removes event handler attributes', () => {
+  const { html, report } = sanitizeHtml('<div onclick="steal()" class="stop">Stop</div>', 'strict', noImages);
+  assert.equal(html, '<div class="stop">Stop</div>');
+  assert.deepEqual(report.removed_attributes, ['div.onclick']);
+});
+
+test('sanitizeHtml unwraps unknown tags but keeps their text', () => {
+  const { html, report } = sanitizeHtml('<p><blink>Look</blink></p>', 'strict', noImages);
+  assert.equal(html, '<p>Look</p>');
+  assert.deepEqual(report.unwrapped_tags, { blink: 1 });
+});
+
+test('sanitizeHtml rejects javascript: links', () => {
+  const { html, report } = sanitizeHtml('<a href="javascript:alert(1)">x</a>', 'strict', noImages);
+  assert.equal(html, '<a>x</a>');
+  assert.deepEqual(report.rejected_urls, ['javascript:alert(1)']);
+});
+
+test('sanitizeHtml adds rel noopener to links opening a new tab', () => {
+  const { html } = sanitizeHtml('<a href="https://example.com" target="_blank" rel="opener">x</a>', 'strict', noImages);
+  assert.equal(html, '<a href="https://example.com" target="_blank" rel="noopener noreferrer">x</a>');
+});
+
+test('sanitizeHtml keeps local images and drops remote ones in strict mode', () => {
+  const images = new Map([['a.jpg', 'local'], ['https://example.com/b.jpg', 'remote']]);
+  const { html, report } = sanitizeHtml('<img src="a.jpg"><img src="https://example.com/b.jpg">', 'strict', images);
+  assert.equal(html, '<img src="a.jpg">');
+  assert.deepEqual(report.rejected_urls, ['https://example.com/b.jpg']);
+  assert.deepEqual(report.removed_elements, { img: 1 });
+});
+
+test('sanitizeHtml keeps remote and missing images in permissive mode', () => {
+  const images = new Map([['gone.jpg', 'missing'], ['https://example.com/b.jpg', 'remote']]);
+  const { html, report } = sanitizeHtml('<img src="gone.jpg"><img src="https://example.com/b.jpg">', 'permissive', images);
+  assert.equal(html, '<img src="gone.jpg"><img src="https://example.com/b.jpg">');
+  assert.deepEqual(report.missing_images, ['gone.jpg']);
+  assert.deepEqual(report.rejected_urls, []);
+});
+
+test('sanitizeHtml allows only safe inline styles in permissive mode', () => {
+  const { html, report } = sanitizeHtml(
+    '<p style="color: red">a</p><p style="background: url(https://x)">b</p>',
+    'permissive',
+    noImages
+  );
+  assert.equal(html, '<p style="color: red">a</p><p>b</p>');
+  assert.deepEqual(report.removed_attributes, ['p.style']);
+});
+
+test('sanitizeHtml escapes text so entities cannot reopen markup', () => {
+  const { html } = sanitizeHtml('<p>&lt;script&gt;x&lt;/script&gt;</p>', 'strict', noImages);
+  assert.equal(html, '<p>&lt;script&gt;x&lt;/script&gt;</p>');
+});
+
+test('checkImageSource treats malformed escapes as invalid instead of throwing', async () => {
+  assert.equal(await checkImageSource('100%.jpg', '/tmp/html', '/tmp/output'), 'invalid');
+});
+
+test('checkImageSource classifies sources outside the output tree', async () => {
+  assert.equal(await checkImageSource('../../etc/passwd', '/tmp/html', '/tmp/output'), 'outside');
+  assert.equal(await checkImageSource('javascript:alert(1)', '/tmp/html', '/tmp/output'), 'invalid');
+  assert.equal(await checkImageSource('https://example.com/a.jpg', '/tmp/html', '/tmp/output'), 'remote');
+});